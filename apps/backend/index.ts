@@ -2,55 +2,32 @@ import express from "express";
 import { prismaClient } from "./prisma";
 import { authMiddleware } from "./middleware";
 import cors from "cors";
+import { analyzeResponse, parseArtifacts, stripTopLevelFolder } from "@repo/artifacts";
 import { basePrompt } from "./prompts/baseprompt";
-import { SYSTEM_PROMPT, BASE_PROMPT_REACT } from "./prompts/prompt";
+import { SYSTEM_PROMPT, BASE_PROMPT_REACT, CONTINUE_PROMPT, PATCH_FALLBACK_PROMPT } from "./prompts/prompt";
 import { boilerplateComponents } from "./prompts/boilerplate-components";
-import { generateText, streamText } from "ai";
-import { openai } from "@ai-sdk/openai";
-import Anthropic from '@anthropic-ai/sdk';
+import { normalizeProjectState, projectStateToJson } from "./lib/project-state";
+import { buildChatContext, parseArtifactFiles, type ContextReport } from "./lib/context-builder";
+import { buildModifications } from "./lib/modifications";
+import { aggregateUsage, getQuotaStatus, periodStart, recordUsage, type UsagePeriod } from "./lib/usage";
+import { ForgeStreamParser, writeChatEvent } from "./lib/chat-events";
+import { ContinuationStitcher } from "./lib/continuation";
+import { findPatchFailures } from "./lib/patch";
+import { repairResponse, validationReportToJson } from "./lib/validation";
+import {
+  DEFAULT_MODEL_ID,
+  getModel,
+  getProviderForModel,
+  getUtilityProvider,
+  listModels,
+  type ChatMessage,
+} from "./lib/providers";
 
 const PORT = process.env.PORT || 3001;
-const anthropic = new Anthropic({ 
-  apiKey: process.env.ANTHROPIC_API_KEY 
-});
-
-function analyzeAIResponse(response: string): {
-  hasForgeArtifact: boolean;
-  hasForgeActions: boolean;
-  estimatedFileCount: number;
-  estimatedShellCommands: number;
-  responseType: string;
-  hasValidXML: boolean;
-} {
-  const hasForgeArtifact = response.includes('<forgeArtifact') || response.includes('&lt;forgeArtifact');
-  const hasForgeActions = response.includes('<forgeAction') || response.includes('&lt;forgeAction');
-  
-  const fileMatches = response.match(/<forgeAction[^>]*type=["']file["'][^>]*>/g) || [];
-  const estimatedFileCount = fileMatches.length;
-  
-  const shellMatches = response.match(/<forgeAction[^>]*type=["'](shell|command)["'][^>]*>/g) || [];
-  const estimatedShellCommands = shellMatches.length;
-  
-  let responseType = 'text';
-  if (hasForgeArtifact) {
-    responseType = 'forge_artifact';
-  } else if (hasForgeActions) {
-    responseType = 'forge_actions';
-  } else if (response.includes('<boltArtifact')) {
-    responseType = 'bolt_artifact';
-  }
-  
-  const hasValidXML = hasForgeArtifact ? response.includes('</forgeArtifact>') || response.includes('&lt;/forgeArtifact&gt;') : true;
-  
-  return {
-    hasForgeArtifact,
-    hasForgeActions,
-    estimatedFileCount,
-    estimatedShellCommands,
-    responseType,
-    hasValidXML
-  };
-}
+// Boilerplate sent with every system prompt, project files identical to it are not repeated
+const BOILERPLATE_FILES = parseArtifactFiles(basePrompt);
+// How many times /api/chat asks the model to continue a cut-off response
+const MAX_CONTINUATIONS = Math.max(0, Number(process.env.CHAT_MAX_CONTINUATIONS ?? 3) || 0);
 
 const app = express();
 
@@ -76,7 +53,7 @@ app.options("/api/chat", cors({
 }));
 
 
-app.use(express.json());
+app.use(express.json({ limit: "10mb" }));
 
 app.post("/api/register", async (req, res) => {
   try {
@@ -111,19 +88,12 @@ app.post("/api/project", authMiddleware, async (req, res) => {
   const privyUserId = req.privyUserId!;
 
   try {
-    const summaryResponse = await generateText({
-      model: openai('gpt-4o'),
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a project description generator. Create a concise description (maximum 4 words) that captures the essence of the user\'s Solana app idea. Return only the description, no additional text.'
-        },
-        {
-          role: 'user',
-          content: `Summarize this Solana app idea in 4 words or less: "${prompt}"`
-        }
-      ],
-      maxOutputTokens: 20,
+    const utilityProvider = getUtilityProvider();
+    const summaryResponse = await utilityProvider.generateText({
+      model: utilityProvider.utilityModel,
+      system: 'You are a project description generator. Create a concise description (maximum 4 words) that captures the essence of the user\'s Solana app idea. Return only the description, no additional text.',
+      prompt: `Summarize this Solana app idea in 4 words or less: "${prompt}"`,
+      maxTokens: 20,
       temperature: 0.3,
     });
 
@@ -187,6 +157,9 @@ app.get("/api/projects", authMiddleware, async (req, res) => {
     where: {
       userId: user.id,
     },
+    omit: {
+      state: true,
+    },
     orderBy: {
       createdAt: "desc",
     },
@@ -230,11 +203,11 @@ app.get("/api/project/:id", authMiddleware, async (req, res) => {
       systemPrompts: systemPrompts.length,
       userPrompts: userPrompts.length,
       estimatedTotalFiles: systemPrompts.reduce((acc, prompt) => {
-        const analysis = analyzeAIResponse(prompt.content);
-        return acc + analysis.estimatedFileCount;
+        const analysis = analyzeResponse(prompt.content);
+        return acc + analysis.fileCount;
       }, 0),
       hasStructuredContent: systemPrompts.some(prompt => {
-        const analysis = analyzeAIResponse(prompt.content);
+        const analysis = analyzeResponse(prompt.content);
         return analysis.hasForgeArtifact || analysis.hasForgeActions;
       })
     };
@@ -245,10 +218,156 @@ app.get("/api/project/:id", authMiddleware, async (req, res) => {
   }
 });
 
+app.put("/api/project/:id/state", authMiddleware, async (req, res) => {
+  const { id: projectId } = req.params;
+  const privyUserId = req.privyUserId;
+
+  const state = normalizeProjectState(req.body);
+  if (!state) {
+    return res.status(400).json({ error: "Invalid project state: expected { files, directories }" });
+  }
+  // The files the response itself produced, without edits or restores on top
+  const snapshotState = req.body?.snapshot === undefined ? null : normalizeProjectState(req.body.snapshot);
+  if (req.body?.snapshot !== undefined && !snapshotState) {
+    return res.status(400).json({ error: "Invalid snapshot: expected { files, directories }" });
+  }
+
+  try {
+    const user = await prismaClient.user.findUnique({
+      where: { privyUserId },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const project = await prismaClient.project.findFirst({
+      where: {
+        id: projectId,
+        userId: user.id,
+      },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: "Project not found or access denied" });
+    }
+
+    const updated = await prismaClient.project.update({
+      where: { id: project.id },
+      data: { state: projectStateToJson(state) },
+    });
+
+    if (state.promptId && snapshotState) {
+      const prompt = await prismaClient.prompt.findFirst({
+        where: {
+          id: state.promptId,
+          projectId: project.id,
+          type: "SYSTEM",
+        },
+      });
+
+      // Snapshots record the version produced by a response; later saves (edits, restores) keep it intact
+      if (prompt) {
+        await prismaClient.projectSnapshot.upsert({
+          where: { promptId: prompt.id },
+          update: {},
+          create: {
+            state: projectStateToJson({ ...snapshotState, promptId: prompt.id }),
+            fileCount: snapshotState.files.length,
+            projectId: project.id,
+            promptId: prompt.id,
+          },
+        });
+      }
+    }
+
+    res.json({ success: true, state: updated.state, updatedAt: updated.updatedAt });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update project state" });
+  }
+});
+
+app.get("/api/project/:id/snapshots", authMiddleware, async (req, res) => {
+  const { id: projectId } = req.params;
+  const privyUserId = req.privyUserId;
+
+  try {
+    const user = await prismaClient.user.findUnique({
+      where: { privyUserId },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const project = await prismaClient.project.findFirst({
+      where: {
+        id: projectId,
+        userId: user.id,
+      },
+    });
+
+    if (!project) {
+      return res.status(404).json({ error: "Project not found or access denied" });
+    }
+
+    const snapshots = await prismaClient.projectSnapshot.findMany({
+      where: { projectId: project.id },
+      select: {
+        id: true,
+        promptId: true,
+        fileCount: true,
+        createdAt: true,
+        updatedAt: true,
+      },
+      orderBy: { createdAt: "asc" },
+    });
+
+    res.json(snapshots);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch snapshots" });
+  }
+});
+
+app.get("/api/project/:id/snapshots/:snapshotId", authMiddleware, async (req, res) => {
+  const { id: projectId, snapshotId } = req.params;
+  const privyUserId = req.privyUserId;
+
+  try {
+    const user = await prismaClient.user.findUnique({
+      where: { privyUserId },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    const snapshot = await prismaClient.projectSnapshot.findFirst({
+      where: {
+        id: snapshotId,
+        project: {
+          id: projectId,
+          userId: user.id,
+        },
+      },
+    });
+
+    if (!snapshot) {
+      return res.status(404).json({ error: "Snapshot not found or access denied" });
+    }
+
+    res.json(snapshot);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch snapshot" });
+  }
+});
+
 app.post("/api/chat", authMiddleware, async (req, res) => {
-  const { prompt: userPrompt, projectId, model = "claude-3-7-sonnet-20250219" } = req.body;
+  const { prompt: userPrompt, projectId, model = DEFAULT_MODEL_ID } = req.body;
   const privyUserId = req.privyUserId!;
   const requestId = `chat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  // Clients opt into typed events by accepting text/event-stream, everyone else gets raw text
+  const useEventStream = (req.headers.accept || "").includes("text/event-stream");
   
   try {
     if (!userPrompt || !projectId) {
@@ -259,6 +378,12 @@ app.post("/api/chat", authMiddleware, async (req, res) => {
       return res.status(400).json({ error: "Prompt too long" });
     }
 
+    const modelInfo = typeof model === "string" ? getModel(model) : undefined;
+    if (!modelInfo || !modelInfo.enabled) {
+      return res.status(400).json({ error: `Unsupported model: ${model}` });
+    }
+    const provider = getProviderForModel(modelInfo.id);
+
     let user;
     try {
       user = await prismaClient.user.findUnique({
@@ -272,6 +397,24 @@ app.post("/api/chat", authMiddleware, async (req, res) => {
       return res.status(404).json({ error: "User not found" });
     }
 
+    // Refuse before anything is streamed, the client gets the allowance to show
+    let quota;
+    try {
+      quota = await getQuotaStatus(user);
+    } catch (dbError) {
+      return res.status(500).json({ error: "Database error checking usage quota" });
+    }
+
+    const exceeded = quota.find((q) => q.remaining === 0);
+    if (exceeded) {
+      const retryAfter = Math.ceil((new Date(exceeded.resetsAt).getTime() - Date.now()) / 1000);
+      res.setHeader("Retry-After", String(Math.max(1, retryAfter)));
+      return res.status(429).json({
+        error: `${exceeded.period === "daily" ? "Daily" : "Monthly"} token quota exceeded (${exceeded.used} of ${exceeded.limit} tokens used), resets at ${exceeded.resetsAt}`,
+        quota,
+      });
+    }
+
     let project;
     try {
       project = await prismaClient.project.findFirst({
@@ -293,18 +436,29 @@ app.post("/api/chat", authMiddleware, async (req, res) => {
       return res.status(404).json({ error: "Project not found or access denied" });
     }
 
-    let conversationHistory;
-    try {
-      conversationHistory = project.prompts.map((p) => ({
-        role: p.type === "USER" ? "user" : "assistant",
-        content: p.content,
-      }));
-    } catch (mappingError) {
-      return res.status(500).json({ error: "Error processing conversation history" });
+    // Files the user changed since the last AI response, relative to that response's snapshot
+    // (or to the snapshot they restored, a restore is not an edit)
+    const state = normalizeProjectState(project.state);
+    let modifications: { block: string; paths: string[] } | undefined;
+    const lastSystemPrompt = project.prompts.filter((p) => p.type === "SYSTEM").pop();
+    // A state saved for an older response would make the model's own changes look reverted
+    if (state && lastSystemPrompt && state.promptId === lastSystemPrompt.id) {
+      try {
+        const snapshot = await prismaClient.projectSnapshot.findFirst({
+          where: { promptId: state.restoredFrom ?? lastSystemPrompt.id, projectId: project.id },
+        });
+        const baseline = snapshot ? normalizeProjectState(snapshot.state) : null;
+        if (baseline) {
+          modifications = buildModifications(baseline, state);
+        }
+      } catch (dbError) {
+        return res.status(500).json({ error: "Database error loading project snapshot" });
+      }
     }
 
-    let messages;
-    let systemContent;
+    let messages: ChatMessage[];
+    let systemContent: string;
+    let contextReport: ContextReport;
     try {
       systemContent = [
         SYSTEM_PROMPT(),
@@ -312,10 +466,18 @@ app.post("/api/chat", authMiddleware, async (req, res) => {
         BASE_PROMPT_REACT
       ].join('\n\n');
 
-      messages = [
-        ...conversationHistory,
-        { role: "user", content: userPrompt },
-      ];
+      const context = buildChatContext({
+        history: project.prompts,
+        userPrompt,
+        state,
+        systemPrompt: systemContent,
+        contextWindow: modelInfo.contextWindow,
+        maxOutputTokens: modelInfo.maxOutputTokens,
+        boilerplateFiles: BOILERPLATE_FILES,
+        modifications,
+      });
+      messages = context.messages;
+      contextReport = context.report;
     } catch (messageError) {
       return res.status(500).json({ error: "Error preparing conversation messages" });
     }
@@ -334,84 +496,196 @@ app.post("/api/chat", authMiddleware, async (req, res) => {
 
     res.setHeader("Access-Control-Allow-Origin", "*");
     res.setHeader("Access-Control-Allow-Credentials", "true");
-    res.setHeader("Content-Type", "text/plain; charset=utf-8");
-    res.setHeader("Transfer-Encoding", "chunked");
+    if (useEventStream) {
+      res.setHeader("Content-Type", "text/event-stream; charset=utf-8");
+      res.setHeader("X-Accel-Buffering", "no");
+    } else {
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader("Transfer-Encoding", "chunked");
+    }
     res.setHeader("Cache-Control", "no-cache");
     res.setHeader("Connection", "keep-alive");
 
 
+    const startedAt = Date.now();
     let fullResponse = '';
     let inputTokens = 0;
     let outputTokens = 0;
+    let stopReason: string | null = null;
+    const eventParser = new ForgeStreamParser();
+
+    // Stop generating as soon as the client goes away (Stop button, closed tab)
+    const abortController = new AbortController();
+    let clientDisconnected = false;
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        clientDisconnected = true;
+        abortController.abort();
+      }
+    });
+
+    if (useEventStream) {
+      writeChatEvent(res, { type: "context", ...contextReport });
+    }
+
+    const emitText = (text: string) => {
+      if (!text) return;
+      fullResponse += text;
+
+      if (useEventStream) {
+        for (const event of eventParser.push(text)) {
+          writeChatEvent(res, event);
+        }
+      } else {
+        res.write(text);
+      }
+    };
 
     try {
-      const stream = await anthropic.messages.create({
-        model: model,
-        max_tokens: 64000,
-        temperature: 0.7,
-        system: systemContent,
-        messages:messages as any,
-        stream: true,
-      });
+      try {
+        let continuations = 0;
+        let patchFallback = false;
+        let isContinuation = false;
+        let passMessages = messages;
+        // Patches are made against the saved files, or the boilerplate for a new project
+        const patchBase = state && state.files.length > 0
+          ? new Map(state.files.map((file) => [file.path, file.content]))
+          : BOILERPLATE_FILES;
+
+        while (true) {
+          // Continuations are stitched onto what was already sent
+          const stitcher = isContinuation ? new ContinuationStitcher(fullResponse) : null;
+          const inputTokensBefore = inputTokens;
+          const outputTokensBefore = outputTokens;
+          stopReason = null;
+
+          const stream = provider.streamMessages({
+            model: modelInfo.id,
+            maxTokens: modelInfo.maxOutputTokens,
+            temperature: 0.7,
+            system: systemContent,
+            messages: passMessages,
+            signal: abortController.signal,
+          });
 
-      for await (const chunk of stream) {
-        try {
-          if (chunk.type === 'message_start') {
-            inputTokens = chunk.message?.usage?.input_tokens || 0;
-          } 
-          else if (chunk.type === 'content_block_delta') {
-            if (chunk.delta?.type === 'text_delta') {
-              const textChunk = chunk.delta.text;
-              fullResponse += textChunk;
-              
-              res.write(textChunk);
+          for await (const event of stream) {
+            if (event.type === "text") {
+              emitText(stitcher ? stitcher.push(event.text) : event.text);
+            } else if (event.type === "usage") {
+              // Provider usage is per call, the totals span all passes
+              inputTokens = inputTokensBefore + event.usage.inputTokens;
+              outputTokens = outputTokensBefore + event.usage.outputTokens;
+            } else if (event.type === "stop") {
+              stopReason = event.stopReason;
             }
           }
-          else if (chunk.type === 'content_block_start') {
-          }
-          else if (chunk.type === 'content_block_stop') {
+
+          if (stitcher) {
+            emitText(stitcher.end());
           }
-          else if (chunk.type === 'message_delta') {
-            if (chunk.usage) {
-              outputTokens = chunk.usage.output_tokens || 0;
-            }
-            if (chunk.delta?.stop_reason) {
+
+          const cutOff = stopReason === "max_tokens" || !analyzeResponse(fullResponse).hasValidXML;
+
+          // One extra pass asks for full files where a patch did not apply, later file actions win
+          if (!cutOff && !patchFallback) {
+            const failures = findPatchFailures(fullResponse, patchBase);
+            if (failures.length > 0) {
+              patchFallback = true;
+              isContinuation = false;
+              if (useEventStream) {
+                writeChatEvent(res, { type: "patch_fallback", paths: failures.map((failure) => failure.path) });
+              }
+              passMessages = [
+                ...messages,
+                { role: "assistant", content: fullResponse },
+                { role: "user", content: PATCH_FALLBACK_PROMPT(failures) },
+              ];
+              // Separates the fallback artifact from the closed one before it
+              emitText("\n\n");
+              continue;
             }
           }
-          else if (chunk.type === 'message_stop') {
+
+          if (!cutOff || continuations >= MAX_CONTINUATIONS) {
             break;
           }
-        } catch (chunkError) {
-          continue;
+
+          continuations++;
+          isContinuation = true;
+          if (useEventStream) {
+            writeChatEvent(res, { type: "continuation", attempt: continuations, maxAttempts: MAX_CONTINUATIONS });
+          }
+          passMessages = [
+            ...messages,
+            { role: "assistant", content: fullResponse },
+            { role: "user", content: CONTINUE_PROMPT },
+          ];
+        }
+      } catch (generationError) {
+        // An aborted generation keeps what was written so far, anything else is a real failure
+        if (!clientDisconnected) {
+          throw generationError;
+        }
+      } finally {
+        // Tokens are billed whether the generation finished, was stopped or failed
+        if (inputTokens || outputTokens) {
+          try {
+            await recordUsage({
+              userId: user.id,
+              projectId: project.id,
+              model: modelInfo,
+              inputTokens,
+              outputTokens,
+              durationMs: Date.now() - startedAt,
+            });
+          } catch (dbError) {
+          }
         }
       }
 
-      res.end();
-
-      if (typeof analyzeAIResponse === 'function') {
-        try {
-          const responseAnalysis = analyzeAIResponse(fullResponse);
-        } catch (analysisError) {
+      // After a disconnect nobody is listening anymore, only the partial response needs saving
+      if (!clientDisconnected) {
+        if (useEventStream) {
+          for (const event of eventParser.end()) {
+            writeChatEvent(res, event);
+          }
+          writeChatEvent(res, { type: "usage", inputTokens, outputTokens });
+        } else {
+          res.end();
         }
       }
 
+      let savedPromptId: string | undefined;
       if (fullResponse.trim()) {
+        // Out of continuations: keep the finished files and close the artifact
+        const { content, report } = repairResponse(fullResponse, { closeTags: !clientDisconnected });
         try {
-          await prismaClient.prompt.create({
+          const savedPrompt = await prismaClient.prompt.create({
             data: {
-              content: fullResponse,
+              content,
               type: "SYSTEM",
+              interrupted: clientDisconnected,
+              validation: validationReportToJson(report),
               projectId: project.id,
             },
           });
+          savedPromptId = savedPrompt.id;
         } catch (dbError) {
         }
       }
 
+      if (useEventStream && !clientDisconnected) {
+        writeChatEvent(res, { type: "done", stopReason, promptId: savedPromptId });
+        res.end();
+      }
+
     } catch (streamError) {
       if (!res.headersSent) {
-        res.status(500).json({ error: "Failed to stream response from Anthropic" });
+        res.status(500).json({ error: "Failed to stream response from model provider" });
       } else {
+        if (useEventStream) {
+          writeChatEvent(res, { type: "error", error: "Failed to stream response from model provider", stopReason });
+        }
         res.end();
       }
     }
@@ -420,11 +694,75 @@ app.post("/api/chat", authMiddleware, async (req, res) => {
     if (!res.headersSent) {
       res.status(500).json({ error: "Failed to generate response" });
     } else {
+      if (useEventStream) {
+        writeChatEvent(res, { type: "error", error: "Failed to generate response", stopReason: null });
+      }
       res.end();
     }
   }
 });
 
+app.get("/api/usage", authMiddleware, async (req, res) => {
+  const privyUserId = req.privyUserId;
+  const period: UsagePeriod = req.query.period === "monthly" ? "monthly" : "daily";
+
+  try {
+    const user = await prismaClient.user.findUnique({
+      where: { privyUserId },
+    });
+
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
+    // Defaults to the last 30 days or the last 12 months
+    const now = new Date();
+    const to = req.query.to ? new Date(String(req.query.to)) : now;
+    const defaultFrom = periodStart(period, now);
+    if (period === "daily") {
+      defaultFrom.setUTCDate(defaultFrom.getUTCDate() - 29);
+    } else {
+      defaultFrom.setUTCMonth(defaultFrom.getUTCMonth() - 11);
+    }
+    const from = req.query.from ? new Date(String(req.query.from)) : defaultFrom;
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      return res.status(400).json({ error: "Invalid from/to range" });
+    }
+
+    const buckets = await aggregateUsage(user.id, period, from, to);
+    const totals = buckets.reduce(
+      (sum, bucket) => ({
+        requests: sum.requests + bucket.requests,
+        inputTokens: sum.inputTokens + bucket.inputTokens,
+        outputTokens: sum.outputTokens + bucket.outputTokens,
+        totalTokens: sum.totalTokens + bucket.totalTokens,
+        cost: sum.cost + bucket.cost,
+      }),
+      { requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 }
+    );
+
+    res.json({
+      period,
+      from: from.toISOString(),
+      to: to.toISOString(),
+      buckets,
+      totals,
+      quota: await getQuotaStatus(user, now),
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to get usage" });
+  }
+});
+
+app.get("/api/models", (req, res) => {
+  try {
+    res.json({ models: listModels(), defaultModel: DEFAULT_MODEL_ID });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to list models" });
+  }
+});
+
 app.get("/api/boilerplate", async (req, res) => {
   try {
     res.setHeader("Content-Type", "text/plain");
@@ -447,22 +785,6 @@ app.get("/api/debug/path-strip-test", async (req, res) => {
       'solana-nft-dapp/anchor/programs/nft/lib.rs'
     ];
     
-    const stripTopLevelFolder = (filePath: string): string => {
-      const cleanPath = filePath.replace(/^\/+/, '');
-      const parts = cleanPath.split('/');
-      
-      if (parts.length > 1 && parts[0]) {
-        const firstPart = parts[0].toLowerCase();
-        const validTopLevelFolders = ['src', 'public', 'pages', 'components', 'lib', 'app', 'styles', 'utils', 'hooks', 'types', 'config', 'anchor', 'tests'];
-        
-        if (!validTopLevelFolders.includes(firstPart) && !firstPart.startsWith('.')) {
-          return parts.slice(1).join('/');
-        }
-      }
-      
-      return cleanPath;
-    };
-    
     const results = testPaths.map(path => ({
       original: path,
       stripped: stripTopLevelFolder(path),
@@ -481,31 +803,26 @@ app.get("/api/debug/parse-test", async (req, res) => {
     const testResponse = "Create a simple hello world component";
     
     const parseXML = (content: string) => {
-      const fileMatches = content.match(/<forgeAction[^>]*type=["']file["'][^>]*filePath=["']([^"']+)["'][^>]*>([\s\S]*?)<\/forgeAction>/gi) || [];
-      const dirMatches = content.match(/<forgeAction[^>]*type=["']directory["'][^>]*dirPath=["']([^"']+)["'][^>]*>/gi) || [];
-      
-      const files = fileMatches.map((match, index) => {
-        const pathMatch = match.match(/filePath=["']([^"']+)["']/);
-        const contentMatch = match.match(/<forgeAction[^>]*>([\s\S]*?)<\/forgeAction>/);
-        return {
+      const files = parseArtifacts(content)
+        .flatMap(artifact => artifact.actions)
+        .flatMap(action => (action.type === "file" ? [action] : []))
+        .map((action, index) => ({
           id: `file-${index}`,
-          path: pathMatch ? pathMatch[1] : `unknown-${index}`,
-          content: contentMatch ? contentMatch[1].trim() : '',
-          name: pathMatch ? pathMatch[1].split('/').pop() : `unknown-${index}`,
+          path: action.filePath,
+          content: action.content,
+          name: action.filePath.split('/').pop(),
           language: 'text'
-        };
-      });
-      
-      const directories = dirMatches.map((match, index) => {
-        const pathMatch = match.match(/dirPath=["']([^"']+)["']/);
-        return {
-          id: `dir-${index}`,
-          path: pathMatch ? pathMatch[1] : `unknown-${index}`,
-          name: pathMatch ? pathMatch[1].split('/').pop() : `unknown-${index}`,
-          isDirectory: true
-        };
-      });
-      
+        }));
+      const directories = [...new Set(files.flatMap(file => {
+        const parts = file.path.split('/').slice(0, -1);
+        return parts.map((_, i) => parts.slice(0, i + 1).join('/'));
+      }))].map((path, index) => ({
+        id: `dir-${index}`,
+        path,
+        name: path.split('/').pop(),
+        isDirectory: true
+      }));
+
       return { files, directories };
     };
     
@@ -536,19 +853,13 @@ app.get("/api/debug/parse-test", async (req, res) => {
 
 app.get("/api/debug/boilerplate", async (req, res) => {
   try {
-    const uiComponentCount = (boilerplateComponents.match(/src\/components\/ui\//g) || []).length;
-    const fileCount = (boilerplateComponents.match(/<forgeAction[^>]*type=["']file["']/g) || []).length;
-    const dirCount = (boilerplateComponents.match(/<forgeAction[^>]*type=["']directory["']/g) || []).length;
-    
-    const uiFiles: string[] = [];
-    const uiMatches = boilerplateComponents.match(/<forgeAction[^>]*type=["']file["'][^>]*filePath=["']src\/components\/ui\/[^"']*["']/g) || [];
-    
-    uiMatches.forEach(match => {
-      const pathMatch = match.match(/filePath=["']([^"']+)["']/);
-      if (pathMatch) {
-        uiFiles.push(pathMatch[1]);
-      }
-    });
+    const filePaths = parseArtifacts(boilerplateComponents)
+      .flatMap(artifact => artifact.actions)
+      .flatMap(action => (action.type === "file" ? [action.filePath] : []));
+    const uiFiles = filePaths.filter(path => path.startsWith('src/components/ui/'));
+    const uiComponentCount = uiFiles.length;
+    const fileCount = filePaths.length;
+    const dirCount = new Set(filePaths.map(path => path.split('/').slice(0, -1).join('/')).filter(Boolean)).size;
 
     res.json({
       uiComponentCount,
@@ -600,8 +911,12 @@ app.get('/', (req, res) => {
       "POST /api/register - Register/login user",
       "POST /api/project - Create new project",
       "POST /api/chat - Chat with AI",
+      "GET /api/models - List available models",
+      "GET /api/usage - Token usage and quota",
       "GET /api/project/:id - Get project details",
-      "PUT /api/project/:id/state - Update project state"
+      "PUT /api/project/:id/state - Update project state",
+      "GET /api/project/:id/snapshots - List project snapshots",
+      "GET /api/project/:id/snapshots/:snapshotId - Get project snapshot"
     ]
   });
 });
@@ -0,0 +1,107 @@
+import type { Response } from "express";
+import { ForgeTokenizer, type ForgeEvent } from "@repo/artifacts";
+import type { ContextReport } from "./context-builder";
+
+export type ChatStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "artifact_start"; id: string; title: string }
+  | { type: "artifact_end"; id: string }
+  | { type: "file_start"; path: string }
+  | { type: "file_delta"; path: string; content: string }
+  | { type: "file_end"; path: string; complete: boolean }
+  | { type: "shell"; command: string }
+  | { type: "action"; attributes: Record<string, string>; content: string } // delete, rename, patch, ...
+  | { type: "usage"; inputTokens: number; outputTokens: number }
+  | ({ type: "context" } & ContextReport)
+  | { type: "continuation"; attempt: number; maxAttempts: number }
+  | { type: "patch_fallback"; paths: string[] }
+  | { type: "done"; stopReason: string | null; promptId?: string }
+  | { type: "error"; error: string; stopReason: string | null };
+
+/**
+ * Turns raw model output into typed stream events as it arrives.
+ * Only the bytes that could still belong to an unfinished tag are kept
+ * between chunks, everything else is emitted immediately.
+ */
+export class ForgeStreamParser {
+  private tokenizer = new ForgeTokenizer();
+  private artifactId = "";
+  private action: { type: string; path: string; attributes: Record<string, string>; content: string } | null = null;
+
+  push(chunk: string): ChatStreamEvent[] {
+    return this.toChatEvents(this.tokenizer.push(chunk));
+  }
+
+  /**
+   * Flush whatever is still buffered once the model stopped writing
+   */
+  end(): ChatStreamEvent[] {
+    const events = this.toChatEvents(this.tokenizer.end());
+    this.tokenizer = new ForgeTokenizer();
+    this.action = null;
+    return events;
+  }
+
+  private toChatEvents(forgeEvents: ForgeEvent[]): ChatStreamEvent[] {
+    const events: ChatStreamEvent[] = [];
+
+    for (const event of forgeEvents) {
+      switch (event.type) {
+        case "text":
+          events.push({ type: "text", text: event.text });
+          break;
+        case "artifact_open":
+          this.artifactId = event.attributes.id || "";
+          events.push({ type: "artifact_start", id: this.artifactId, title: event.attributes.title || "" });
+          break;
+        case "artifact_close":
+          if (event.complete) events.push({ type: "artifact_end", id: this.artifactId });
+          break;
+        case "action_open":
+          this.action = {
+            type: event.attributes.type || "",
+            path: event.attributes.filePath || "",
+            attributes: event.attributes,
+            content: "",
+          };
+          if (this.action.type === "file") {
+            events.push({ type: "file_start", path: this.action.path });
+          }
+          break;
+        case "action_delta":
+          if (this.action?.type === "file") {
+            events.push({ type: "file_delta", path: this.action.path, content: event.content });
+          } else if (this.action) {
+            this.action.content += event.content;
+          }
+          break;
+        case "action_close": {
+          const action = this.action;
+          this.action = null;
+          if (!action) break;
+          if (action.type === "file") {
+            events.push({ type: "file_end", path: action.path, complete: event.complete });
+            break;
+          }
+          // Other actions are only reported once finished, a cut-off command or patch cannot run
+          if (!event.complete) break;
+          if (action.type === "shell") {
+            const command = action.attributes.command || action.content.trim();
+            if (command) events.push({ type: "shell", command });
+          } else if (action.type) {
+            events.push({ type: "action", attributes: action.attributes, content: action.content });
+          }
+          break;
+        }
+      }
+    }
+    return events;
+  }
+}
+
+/**
+ * Write one event in text/event-stream framing
+ */
+export function writeChatEvent(res: Response, event: ChatStreamEvent) {
+  res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+}
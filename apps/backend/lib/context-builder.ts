@@ -0,0 +1,277 @@
+import { parseArtifacts, parseResponseParts, type Action } from "@repo/artifacts";
+import type { ChatMessage } from "./providers";
+import type { ProjectState, ProjectStateFile } from "./project-state";
+
+export interface HistoryPrompt {
+  id: string;
+  type: "USER" | "SYSTEM";
+  content: string;
+  interrupted: boolean;
+}
+
+export interface ContextReport {
+  budget: number; // Input tokens available for history, files and prompt
+  system: number;
+  history: number;
+  summary: number;
+  files: number;
+  prompt: number;
+  modifications: number; // The <modifications> block with the user's own edits
+  total: number; // Everything sent, system prompt included
+  turns: { total: number; kept: number; summarized: number };
+  filesIncluded: number;
+  filesListed: number;
+  modifiedFiles: number;
+}
+
+export interface BuiltContext {
+  messages: ChatMessage[];
+  report: ContextReport;
+}
+
+const INTERRUPTED_NOTE = "[This response was interrupted by the user before it was finished]";
+
+// Upper bound for history + files + prompt, on top of what the model window allows
+const CONTEXT_TOKEN_BUDGET = Math.max(0, Number(process.env.CHAT_CONTEXT_TOKEN_BUDGET ?? 80000) || 0);
+// Share of the budget the conversation may take, the rest goes to file contents
+const HISTORY_SHARE = 0.4;
+const SUMMARY_SHARE = 0.1;
+// Most recent turns are always sent in full (minus their artifacts)
+const MIN_RECENT_TURNS = 2;
+const SUMMARY_SNIPPET_LENGTH = 200;
+
+/**
+ * Rough token count (~4 characters per token), good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Files written or patched by each forgeArtifact in a response
+ */
+function artifactFilePaths(response: string): string[] {
+  return parseArtifacts(response)
+    .flatMap((artifact) => artifact.actions)
+    .flatMap((action) => (action.type === "file" || action.type === "patch" ? [action.filePath] : []));
+}
+
+function describeActions(actions: Action[]): string {
+  const files: string[] = [];
+  const patched: string[] = [];
+  const removed: string[] = [];
+  const renamed: string[] = [];
+  const commands: string[] = [];
+  for (const action of actions) {
+    if (action.type === "file") files.push(action.filePath);
+    else if (action.type === "patch") patched.push(action.filePath);
+    else if (action.type === "delete") removed.push(action.filePath);
+    else if (action.type === "rename") renamed.push(`${action.from} to ${action.to}`);
+    else commands.push(action.command);
+  }
+  const parts = [
+    files.length ? `wrote ${files.join(", ")}` : "",
+    patched.length ? `patched ${patched.join(", ")}` : "",
+    removed.length ? `deleted ${removed.join(", ")}` : "",
+    renamed.length ? `renamed ${renamed.join(", ")}` : "",
+    commands.length ? `ran ${commands.join("; ")}` : "",
+  ];
+  return parts.filter(Boolean).join(", ") || "no actions";
+}
+
+/**
+ * Replace every artifact with a one line note, the file contents are sent
+ * separately from the current project state
+ */
+function stripArtifacts(response: string): string {
+  return parseResponseParts(response)
+    .map((part) =>
+      part.type === "text"
+        ? part.text
+        : `[${part.artifact.title || "artifact"}: ${describeActions(part.artifact.actions)}]`
+    )
+    .join("")
+    .trim();
+}
+
+function snippet(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > SUMMARY_SNIPPET_LENGTH ? `${flat.slice(0, SUMMARY_SNIPPET_LENGTH)}...` : flat;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^\.?\/+/, "");
+}
+
+/**
+ * Files of a forgeArtifact keyed by path, used to recognise untouched boilerplate
+ */
+export function parseArtifactFiles(artifact: string): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const action of parseArtifacts(artifact).flatMap((parsed) => parsed.actions)) {
+    if (action.type === "file") files.set(action.filePath, action.content);
+  }
+  return files;
+}
+
+/**
+ * Order files by how likely the request needs them: named in the prompt first,
+ * then files the user edited, then files the model changed (latest first), then the rest
+ */
+function rankFiles(
+  files: ProjectStateFile[],
+  prompt: string,
+  changedPaths: string[],
+  modifiedPaths: string[]
+): ProjectStateFile[] {
+  const promptLower = prompt.toLowerCase();
+  const score = (file: ProjectStateFile): number => {
+    const path = normalizePath(file.path);
+    if (promptLower.includes(path.toLowerCase())) return 4000;
+    if (file.name && promptLower.includes(file.name.toLowerCase())) return 3000;
+    if (modifiedPaths.includes(path)) return 2000;
+    const changedIndex = changedPaths.lastIndexOf(path);
+    return changedIndex === -1 ? 0 : 1000 + changedIndex;
+  };
+
+  return [...files].sort((a, b) => score(b) - score(a) || a.path.localeCompare(b.path));
+}
+
+function formatFile(file: ProjectStateFile): string {
+  return `<file path="${normalizePath(file.path)}">\n${file.content}\n</file>`;
+}
+
+/**
+ * Build the messages for a chat request within the model's input budget:
+ * - artifacts of earlier responses are replaced by the current project files
+ * - turns that no longer fit are summarized into a short digest
+ * - file contents are included by relevance, the rest only by path
+ */
+export function buildChatContext(options: {
+  history: HistoryPrompt[];
+  userPrompt: string;
+  state: ProjectState | null;
+  systemPrompt: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  boilerplateFiles?: Map<string, string>;
+  modifications?: { block: string; paths: string[] };
+}): BuiltContext {
+  const { history, userPrompt, state, systemPrompt, boilerplateFiles } = options;
+  const modifications = options.modifications?.block || "";
+  const modifiedPaths = (options.modifications?.paths || []).map(normalizePath);
+  const systemTokens = estimateTokens(systemPrompt);
+  const windowBudget = options.contextWindow - options.maxOutputTokens - systemTokens;
+  const budget = Math.max(0, CONTEXT_TOKEN_BUDGET ? Math.min(CONTEXT_TOKEN_BUDGET, windowBudget) : windowBudget);
+  // The user's edits are always sent, they count against the budget like the prompt
+  const promptTokens = estimateTokens(userPrompt) + estimateTokens(modifications);
+
+  // Without a saved file state the artifacts are the only record of the code
+  const hasState = !!state && state.files.length > 0;
+  // The state only holds the code of the responses up to the one it was saved for,
+  // later responses (the save failed or has not happened yet) keep their artifacts
+  const coveredIndex = hasState ? history.findIndex((prompt) => prompt.id === state!.promptId) : -1;
+  const hasUncovered = history.some((prompt, index) => prompt.type === "SYSTEM" && index > coveredIndex);
+  const changedPaths: string[] = [];
+
+  // Group into turns: a user message and the responses that followed it
+  const turns: ChatMessage[][] = [];
+  for (const [index, prompt] of history.entries()) {
+    let content = prompt.content;
+    if (prompt.type === "SYSTEM") {
+      changedPaths.push(...artifactFilePaths(content).map(normalizePath));
+      if (index <= coveredIndex) content = stripArtifacts(content);
+      if (prompt.interrupted) content = `${content}\n\n${INTERRUPTED_NOTE}`;
+    }
+    const message: ChatMessage = { role: prompt.type === "USER" ? "user" : "assistant", content };
+    if (message.role === "user" || turns.length === 0) turns.push([message]);
+    else turns[turns.length - 1]!.push(message);
+  }
+
+  // Keep the newest turns that fit the history share, summarize the rest
+  const historyBudget = Math.floor((budget - promptTokens) * HISTORY_SHARE);
+  let historyTokens = 0;
+  let firstKept = turns.length;
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const tokens = turns[i]!.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+    const isRecent = turns.length - i <= MIN_RECENT_TURNS;
+    if (!isRecent && historyTokens + tokens > historyBudget) break;
+    historyTokens += tokens;
+    firstKept = i;
+  }
+
+  const summaryLines = turns.slice(0, firstKept).flatMap((turn) =>
+    turn.map((m) => `- ${m.role === "user" ? "User" : "Assistant"}: ${snippet(m.content)}`)
+  );
+  // The digest is bounded too, its oldest lines go first
+  let summaryTokens = 0;
+  let firstSummaryLine = summaryLines.length;
+  while (firstSummaryLine > 0) {
+    const tokens = estimateTokens(summaryLines[firstSummaryLine - 1]!) + 1;
+    if (summaryTokens + tokens > budget * SUMMARY_SHARE) break;
+    summaryTokens += tokens;
+    firstSummaryLine--;
+  }
+  const omitted = firstSummaryLine > 0 ? [`- (${firstSummaryLine} older messages omitted)`] : [];
+  const summary = summaryLines.length
+    ? `Summary of the earlier conversation:\n${[...omitted, ...summaryLines.slice(firstSummaryLine)].join("\n")}`
+    : "";
+
+  // Fill what is left with file contents, most relevant first
+  let filesBudget = budget - promptTokens - historyTokens - estimateTokens(summary);
+  const included: string[] = [];
+  const listed: string[] = [];
+  if (hasState) {
+    for (const file of rankFiles(state!.files, userPrompt, changedPaths, modifiedPaths)) {
+      const path = normalizePath(file.path);
+      // Unchanged boilerplate is already part of the system prompt
+      const isBoilerplate = boilerplateFiles?.get(path) === file.content.trim();
+      const formatted = formatFile(file);
+      const tokens = estimateTokens(formatted);
+      if (!isBoilerplate && tokens <= filesBudget) {
+        included.push(formatted);
+        filesBudget -= tokens;
+      } else {
+        listed.push(path);
+      }
+    }
+  }
+
+  const contextParts: string[] = [];
+  if (summary) contextParts.push(summary);
+  if (included.length) {
+    const heading = hasUncovered
+      ? "Contents of the project files before the latest responses above, whose artifacts still apply on top:"
+      : "Current contents of the project files (this replaces the artifacts of earlier responses):";
+    contextParts.push(`${heading}\n${included.join("\n")}`);
+  }
+  if (listed.length) {
+    contextParts.push(`Other files in the project (unchanged boilerplate or left out for size):\n${listed.join("\n")}`);
+  }
+  const contextBlock = contextParts.length ? `<project_context>\n${contextParts.join("\n\n")}\n</project_context>` : "";
+
+  // <modifications> goes first in the user message, where the system prompt says to expect it
+  const messages: ChatMessage[] = [
+    ...turns.slice(firstKept).flat(),
+    { role: "user", content: [modifications, contextBlock, userPrompt].filter(Boolean).join("\n\n") },
+  ];
+
+  const filesTokens = estimateTokens(contextBlock) - estimateTokens(summary);
+  return {
+    messages,
+    report: {
+      budget,
+      system: systemTokens,
+      history: historyTokens,
+      summary: estimateTokens(summary),
+      files: Math.max(0, filesTokens),
+      prompt: estimateTokens(userPrompt),
+      modifications: estimateTokens(modifications),
+      total: systemTokens + historyTokens + estimateTokens(contextBlock) + promptTokens,
+      turns: { total: turns.length, kept: turns.length - firstKept, summarized: firstKept },
+      filesIncluded: included.length,
+      filesListed: listed.length,
+      modifiedFiles: modifiedPaths.length,
+    },
+  };
+}
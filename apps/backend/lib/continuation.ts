@@ -0,0 +1,127 @@
+const ARTIFACT_OPEN_REGEX = /<forgeArtifact\b[^>]*>/g;
+const ACTION_OPEN_REGEX = /<forgeAction\b[^>]*>/g;
+
+// Continuation text is held back until this much arrived (or the pass ended)
+// so repeated tags and overlapping text can be recognised before anything is sent
+const STITCH_WINDOW = 1000;
+// Shorter overlaps are too likely to be coincidence (closing tags, blank lines)
+const MIN_OVERLAP = 20;
+
+function lastMatch(text: string, regex: RegExp): RegExpExecArray | null {
+  regex.lastIndex = 0;
+  let last: RegExpExecArray | null = null;
+  let match;
+  while ((match = regex.exec(text)) !== null) {
+    last = match;
+  }
+  return last;
+}
+
+function filePathOf(tag: string): string | null {
+  const match = tag.match(/filePath\s*=\s*(?:"([^"]*)"|'([^']*)')/);
+  return match ? (match[1] ?? match[2] ?? null) : null;
+}
+
+/**
+ * Whether the response stops inside a forgeArtifact (and inside a forgeAction)
+ */
+export function getOpenTags(response: string): {
+  artifact: RegExpExecArray | null;
+  action: RegExpExecArray | null;
+} {
+  const artifact = lastMatch(response, ARTIFACT_OPEN_REGEX);
+  if (!artifact || response.indexOf("</forgeArtifact>", artifact.index) !== -1) {
+    return { artifact: null, action: null };
+  }
+
+  const action = lastMatch(response, ACTION_OPEN_REGEX);
+  if (!action || action.index < artifact.index || response.indexOf("</forgeAction>", action.index) !== -1) {
+    return { artifact, action: null };
+  }
+
+  return { artifact, action };
+}
+
+/**
+ * Text to append to `previous` for a continuation. Only ever appends, so
+ * everything streamed before stays valid:
+ * - a repeated <forgeArtifact> opening tag is dropped
+ * - if the model restarts the file it was writing, the partial copy is closed
+ *   and the restarted one follows (later file actions win when parsing)
+ * - text that repeats the end of the previous output is skipped
+ */
+export function stitchContinuation(previous: string, continuation: string): string {
+  const open = getOpenTags(previous);
+  let next = continuation;
+
+  if (open.artifact) {
+    const repeatedArtifact = next.match(/^\s*<forgeArtifact\b[^>]*>\s*/);
+    if (repeatedArtifact) {
+      next = next.slice(repeatedArtifact[0].length);
+    }
+  }
+
+  if (open.action) {
+    const repeatedAction = next.match(/^\s*(<forgeAction\b[^>]*>)/);
+    if (repeatedAction) {
+      const openPath = filePathOf(open.action[0]);
+      if (openPath && filePathOf(repeatedAction[1]!) === openPath) {
+        return `\n</forgeAction>\n${next.trimStart()}`;
+      }
+    }
+  }
+
+  const maxOverlap = Math.min(previous.length, next.length, STITCH_WINDOW);
+  for (let length = maxOverlap; length >= MIN_OVERLAP; length--) {
+    if (previous.endsWith(next.slice(0, length))) {
+      return next.slice(length);
+    }
+  }
+
+  return next;
+}
+
+/**
+ * Streams one continuation pass: holds back the first STITCH_WINDOW characters,
+ * stitches them onto the previous output and passes everything after straight through
+ */
+export class ContinuationStitcher {
+  private pending = "";
+  private resolved = false;
+
+  constructor(private previous: string) {}
+
+  push(chunk: string): string {
+    if (this.resolved) {
+      return chunk;
+    }
+
+    this.pending += chunk;
+    return this.pending.length >= STITCH_WINDOW ? this.resolve() : "";
+  }
+
+  end(): string {
+    return this.resolved ? "" : this.resolve();
+  }
+
+  private resolve(): string {
+    this.resolved = true;
+    const text = stitchContinuation(this.previous, this.pending);
+    this.pending = "";
+    return text;
+  }
+}
+
+/**
+ * Make a response that is still cut off after the last continuation well-formed:
+ * the unfinished file action is dropped and the artifact is closed
+ */
+export function closeUnterminatedArtifact(response: string): string {
+  const open = getOpenTags(response);
+  if (!open.artifact) {
+    return response;
+  }
+
+  const body = open.action ? response.slice(0, open.action.index) : response;
+  return `${body.trimEnd()}\n</forgeArtifact>`;
+}
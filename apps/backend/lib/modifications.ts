@@ -0,0 +1,173 @@
+import { MODIFICATIONS_TAG_NAME, WORK_DIR } from "../prompts/constants";
+import type { ProjectState } from "./project-state";
+
+// Lines of unchanged context around each hunk, as in `diff -U3`
+const CONTEXT_LINES = 3;
+// Larger edit regions are sent as full files instead of being diffed
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+const splitLines = (content: string): string[] =>
+  content === "" ? [] : content.replace(/\r\n/g, "\n").split("\n");
+
+/**
+ * Line edit script from `a` to `b`, or null when the changed region is too large
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] | null {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+  if (oldLines.length * newLines.length > MAX_LCS_CELLS) {
+    return null;
+  }
+
+  // lcs[i][j] = common lines of oldLines[i..] and newLines[j..]
+  const width = newLines.length + 1;
+  const lcs = new Uint32Array((oldLines.length + 1) * width);
+  for (let i = oldLines.length - 1; i >= 0; i--) {
+    for (let j = newLines.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        oldLines[i] === newLines[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const script: DiffLine[] = a.slice(0, start).map((text) => ({ op: " ", text }));
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length || j < newLines.length) {
+    if (i < oldLines.length && j < newLines.length && oldLines[i] === newLines[j]) {
+      script.push({ op: " ", text: oldLines[i]! });
+      i++;
+      j++;
+    } else if (i < oldLines.length && (j === newLines.length || lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)) {
+      // Removals first on ties, the order GNU diff uses
+      script.push({ op: "-", text: oldLines[i]! });
+      i++;
+    } else {
+      script.push({ op: "+", text: newLines[j]! });
+      j++;
+    }
+  }
+  script.push(...a.slice(endA).map((text): DiffLine => ({ op: " ", text })));
+  return script;
+}
+
+function rangeHeader(start: number, count: number): string {
+  // An empty range points at the line before it, like GNU diff
+  return `${count === 0 ? start : start + 1},${count}`;
+}
+
+/**
+ * GNU unified diff hunks without the file header, or null when too large to compute
+ */
+export function createUnifiedDiff(previous: string, current: string): string | null {
+  const script = diffLines(splitLines(previous), splitLines(current));
+  if (!script) {
+    return null;
+  }
+
+  const hunks: string[] = [];
+  let index = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  while (index < script.length) {
+    if (script[index]!.op === " ") {
+      index++;
+      oldLine++;
+      newLine++;
+      continue;
+    }
+
+    // Start a hunk with leading context and extend it while changes are close together
+    const contextBefore = Math.min(CONTEXT_LINES, index, oldLine);
+    const hunkStart = index - contextBefore;
+    let hunkEnd = index;
+    while (hunkEnd < script.length) {
+      if (script[hunkEnd]!.op !== " ") {
+        hunkEnd++;
+        continue;
+      }
+      let nextChange = hunkEnd;
+      while (nextChange < script.length && script[nextChange]!.op === " ") nextChange++;
+      if (nextChange === script.length || nextChange - hunkEnd > CONTEXT_LINES * 2) {
+        hunkEnd = Math.min(script.length, hunkEnd + CONTEXT_LINES);
+        break;
+      }
+      hunkEnd = nextChange;
+    }
+
+    const lines = script.slice(hunkStart, hunkEnd);
+    const oldCount = lines.filter((line) => line.op !== "+").length;
+    const newCount = lines.filter((line) => line.op !== "-").length;
+    const oldStart = oldLine - contextBefore;
+    const newStart = newLine - contextBefore;
+    hunks.push(
+      `@@ -${rangeHeader(oldStart, oldCount)} +${rangeHeader(newStart, newCount)} @@\n` +
+        lines.map((line) => `${line.op}${line.text}`).join("\n")
+    );
+
+    oldLine = oldStart + oldCount;
+    newLine = newStart + newCount;
+    index = hunkEnd;
+  }
+
+  return hunks.join("\n");
+}
+
+/**
+ * The <modifications> block for every file the user changed since the last
+ * AI response: a <diff> when it is smaller than the file, else the full <file>
+ */
+export function buildModifications(baseline: ProjectState, current: ProjectState): { block: string; paths: string[] } {
+  const before = new Map(baseline.files.map((file) => [file.path, file.content]));
+  const after = new Map(current.files.map((file) => [file.path, file.content]));
+  const entries: string[] = [];
+  const paths: string[] = [];
+
+  after.forEach((content, path) => {
+    const previous = before.get(path);
+    if (previous === content) {
+      return;
+    }
+
+    const diff = previous === undefined ? null : createUnifiedDiff(previous, content);
+    const fullPath = `${WORK_DIR}/${path}`;
+    entries.push(
+      diff !== null && diff.length < content.length
+        ? `<diff path="${fullPath}">\n${diff}\n</diff>`
+        : `<file path="${fullPath}">\n${content}\n</file>`
+    );
+    paths.push(path);
+  });
+
+  // Deleted files can only be expressed as a diff removing every line
+  before.forEach((content, path) => {
+    if (after.has(path)) {
+      return;
+    }
+    const lines = splitLines(content);
+    entries.push(
+      `<diff path="${WORK_DIR}/${path}">\n@@ -${rangeHeader(0, lines.length)} +0,0 @@\n${lines.map((line) => `-${line}`).join("\n")}\n</diff>`
+    );
+    paths.push(path);
+  });
+
+  return {
+    block: entries.length ? `<${MODIFICATIONS_TAG_NAME}>\n${entries.join("\n")}\n</${MODIFICATIONS_TAG_NAME}>` : "",
+    paths,
+  };
+}
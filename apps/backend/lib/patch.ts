@@ -0,0 +1,65 @@
+import { applyPatch, parseArtifacts } from "@repo/artifacts";
+import { WORK_DIR_NAME } from "../prompts/constants";
+
+export interface PatchFailure {
+  path: string;
+  error: string;
+  content: string; // The file the patch was made against
+}
+
+// Paths in the prompt are shown below the WebContainer work directory, /home
+// is already removed as the top-level folder of an absolute path
+const WORK_DIR_PREFIX = `${WORK_DIR_NAME}/`;
+
+function normalizePath(path: string): string {
+  return path.startsWith(WORK_DIR_PREFIX) ? path.slice(WORK_DIR_PREFIX.length) : path;
+}
+
+/**
+ * Replay the actions of a response over the project files and collect every
+ * patch that could not be applied. Paths may carry the project folder in
+ * front, those are matched without it like the web parser does.
+ */
+export function findPatchFailures(response: string, baseFiles: Map<string, string>): PatchFailure[] {
+  const files = new Map(baseFiles);
+  const failures: PatchFailure[] = [];
+  const resolve = (path: string): string => {
+    const normalized = normalizePath(path);
+    if (files.has(normalized)) return normalized;
+    const withoutFolder = normalized.split("/").slice(1).join("/");
+    return withoutFolder && files.has(withoutFolder) ? withoutFolder : normalized;
+  };
+  const isWithin = (path: string, dir: string) => path === dir || path.startsWith(`${dir}/`);
+
+  for (const action of parseArtifacts(response).flatMap((artifact) => artifact.actions)) {
+    if (action.type === "file") {
+      files.set(resolve(action.filePath), action.content);
+    } else if (action.type === "delete") {
+      const path = resolve(action.filePath);
+      [...files.keys()].filter((key) => isWithin(key, path)).forEach((key) => files.delete(key));
+    } else if (action.type === "rename") {
+      const from = resolve(action.from);
+      const to = normalizePath(action.to);
+      for (const [key, content] of [...files]) {
+        if (isWithin(key, from)) {
+          files.delete(key);
+          files.set(to + key.slice(from.length), content);
+        }
+      }
+    } else if (action.type === "patch") {
+      const path = resolve(action.filePath);
+      const current = files.get(path);
+      if (current === undefined) {
+        failures.push({ path, error: "the file does not exist", content: "" });
+        continue;
+      }
+      const result = applyPatch(current, action.patch);
+      if (result.ok) {
+        files.set(path, result.content);
+      } else {
+        failures.push({ path, error: result.error, content: current });
+      }
+    }
+  }
+  return failures;
+}
@@ -0,0 +1,115 @@
+import type { Prisma } from "@prisma/client";
+
+export interface ProjectStateFile {
+  id: string;
+  name: string;
+  path: string;
+  content: string;
+  language: string;
+  isDirectory?: boolean;
+  origin?: "runtime"; // Created or changed by a command in the WebContainer
+}
+
+export interface ProjectState {
+  files: ProjectStateFile[];
+  directories: ProjectStateFile[];
+  promptId?: string;
+  restoredFrom?: string; // Prompt whose snapshot the files were restored from, edits are relative to it
+}
+
+export const EMPTY_PROJECT_STATE: ProjectState = { files: [], directories: [] };
+
+const MAX_STATE_FILES = 2000;
+
+/**
+ * The state as a value for a Prisma Json column
+ */
+export function projectStateToJson(state: ProjectState): Prisma.InputJsonObject {
+  return {
+    ...state,
+    files: state.files.map((file) => ({ ...file })),
+    directories: state.directories.map((dir) => ({ ...dir })),
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const nonEmptyString = (value: unknown): string | undefined =>
+  typeof value === "string" && value ? value : undefined;
+
+function normalizeEntry(entry: unknown, isDirectory: boolean): ProjectStateFile | null {
+  if (!isRecord(entry) || typeof entry.path !== "string") {
+    return null;
+  }
+
+  const path = entry.path.replace(/^\/+/, "").trim();
+  if (!path || path.split("/").includes("..")) {
+    return null;
+  }
+
+  const prefix = isDirectory ? "dir" : "file";
+  const normalized: ProjectStateFile = {
+    id: nonEmptyString(entry.id) ?? `${prefix}-${path.replace(/[^a-zA-Z0-9]/g, "-")}`,
+    name: nonEmptyString(entry.name) ?? (path.split("/").pop() || path),
+    path,
+    content: isDirectory ? "" : typeof entry.content === "string" ? entry.content : "",
+    language: typeof entry.language === "string" ? entry.language : "",
+  };
+
+  if (isDirectory) {
+    normalized.isDirectory = true;
+  } else if (entry.origin === "runtime") {
+    normalized.origin = "runtime";
+  }
+
+  return normalized;
+}
+
+/**
+ * Validate a client supplied file tree and strip everything that is not part of
+ * the persisted shape (tree children, streaming markers, ...).
+ * Returns null when the payload is not a usable state.
+ */
+export function normalizeProjectState(input: unknown): ProjectState | null {
+  if (!isRecord(input) || !Array.isArray(input.files)) {
+    return null;
+  }
+
+  const directoriesInput = Array.isArray(input.directories) ? input.directories : [];
+  if (input.files.length + directoriesInput.length > MAX_STATE_FILES) {
+    return null;
+  }
+
+  const files = new Map<string, ProjectStateFile>();
+  for (const entry of input.files) {
+    const file = normalizeEntry(entry, false);
+    if (file) {
+      files.set(file.path, file);
+    }
+  }
+
+  const directories = new Map<string, ProjectStateFile>();
+  for (const entry of directoriesInput) {
+    const dir = normalizeEntry(entry, true);
+    if (dir) {
+      directories.set(dir.path, dir);
+    }
+  }
+
+  const state: ProjectState = {
+    files: Array.from(files.values()),
+    directories: Array.from(directories.values()),
+  };
+
+  const promptId = nonEmptyString(input.promptId);
+  if (promptId) {
+    state.promptId = promptId;
+  }
+  const restoredFrom = nonEmptyString(input.restoredFrom);
+  if (restoredFrom) {
+    state.restoredFrom = restoredFrom;
+  }
+
+  return state;
+}
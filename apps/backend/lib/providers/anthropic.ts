@@ -0,0 +1,70 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMProvider, ProviderStreamEvent, StreamMessagesOptions } from "./types";
+
+const anthropic = new Anthropic({
+  apiKey: process.env.ANTHROPIC_API_KEY
+});
+
+export const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  utilityModel: "claude-3-5-haiku-20241022",
+
+  async *streamMessages(options: StreamMessagesOptions): AsyncIterable<ProviderStreamEvent> {
+    const stream = await anthropic.messages.create({
+      model: options.model,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      system: options.system,
+      messages: options.messages,
+      stream: true,
+    }, { signal: options.signal });
+
+    const usage = { inputTokens: 0, outputTokens: 0 };
+
+    for await (const chunk of stream) {
+      if (chunk.type === 'message_start') {
+        usage.inputTokens = chunk.message?.usage?.input_tokens || 0;
+        yield { type: "usage", usage: { ...usage } };
+      }
+      else if (chunk.type === 'content_block_delta') {
+        if (chunk.delta?.type === 'text_delta') {
+          yield { type: "text", text: chunk.delta.text };
+        }
+      }
+      else if (chunk.type === 'message_delta') {
+        if (chunk.usage) {
+          usage.outputTokens = chunk.usage.output_tokens || 0;
+          yield { type: "usage", usage: { ...usage } };
+        }
+        if (chunk.delta?.stop_reason) {
+          yield { type: "stop", stopReason: chunk.delta.stop_reason };
+        }
+      }
+      else if (chunk.type === 'message_stop') {
+        break;
+      }
+    }
+  },
+
+  async generateText(options) {
+    const message = await anthropic.messages.create({
+      model: options.model,
+      max_tokens: options.maxTokens,
+      temperature: options.temperature,
+      system: options.system,
+      messages: [{ role: "user", content: options.prompt }],
+    });
+
+    const text = message.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+
+    return {
+      text,
+      usage: {
+        inputTokens: message.usage.input_tokens,
+        outputTokens: message.usage.output_tokens,
+      },
+    };
+  },
+};
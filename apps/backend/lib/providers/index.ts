@@ -0,0 +1,56 @@
+import { anthropicProvider } from "./anthropic";
+import { mockProvider } from "./mock";
+import { getModel } from "./models";
+import { openaiProvider } from "./openai";
+import type { LLMProvider, ProviderId } from "./types";
+
+export { DEFAULT_MODEL_ID, getModel, listModels } from "./models";
+export type { ModelInfo } from "./models";
+export type {
+  ChatMessage,
+  LLMProvider,
+  ProviderId,
+  ProviderStreamEvent,
+  ProviderUsage,
+} from "./types";
+
+const providers: Record<ProviderId, LLMProvider> = {
+  anthropic: anthropicProvider,
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+/**
+ * LLM_PROVIDER routes every request to one provider, e.g. "mock" for offline runs.
+ * Without it the provider is the one the model is registered for.
+ */
+function getForcedProvider(): LLMProvider | null {
+  const id = process.env.LLM_PROVIDER as ProviderId | undefined;
+  if (!id) {
+    return null;
+  }
+  if (!providers[id]) {
+    throw new Error(`Unknown LLM_PROVIDER "${id}"`);
+  }
+  return providers[id];
+}
+
+export function getProviderForModel(model: string): LLMProvider {
+  const forced = getForcedProvider();
+  if (forced) {
+    return forced;
+  }
+
+  const info = getModel(model);
+  if (!info) {
+    throw new Error(`Unknown model "${model}"`);
+  }
+  return providers[info.provider];
+}
+
+/**
+ * Provider for short helper generations (project names)
+ */
+export function getUtilityProvider(): LLMProvider {
+  return getForcedProvider() || openaiProvider;
+}
@@ -0,0 +1,153 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { ChatMessage, LLMProvider, ProviderStreamEvent, StreamMessagesOptions } from "./types";
+
+// Recorded raw model responses, one per .txt file, replayed as-is. Found next
+// to the sources, so it does not matter which directory the backend starts from
+const FIXTURES_DIR =
+  process.env.MOCK_FIXTURES_DIR || fileURLToPath(new URL("../../fixtures/mock", import.meta.url));
+// Delay between streamed chunks so the UI behaves like it does with a real model
+const STREAM_DELAY_MS = Math.max(0, Number(process.env.MOCK_STREAM_DELAY_MS ?? 15) || 0);
+const CHUNK_SIZE = 32;
+
+// Used when no fixture directory is available (e.g. a bundled build)
+const FALLBACK_RESPONSE = `This is a response from the mock provider.
+
+<forgeArtifact id="mock-artifact" title="Mock response">
+  <forgeAction type="file" filePath="src/app/page.tsx">export default function Home() {
+  return <main className="p-8">Hello from the mock provider</main>;
+}
+</forgeAction>
+</forgeArtifact>`;
+
+interface Fixture {
+  name: string;
+  response: string;
+}
+
+let fixtures: Fixture[] | null = null;
+
+function loadFixtures(): Fixture[] {
+  if (fixtures) {
+    return fixtures;
+  }
+
+  try {
+    fixtures = fs
+      .readdirSync(FIXTURES_DIR)
+      .filter((file) => file.endsWith(".txt"))
+      .sort()
+      .map((file) => ({
+        name: path.basename(file, ".txt"),
+        response: fs.readFileSync(path.join(FIXTURES_DIR, file), "utf-8"),
+      }));
+  } catch {
+    fixtures = [];
+  }
+
+  if (fixtures.length === 0) {
+    fixtures = [{ name: "fallback", response: FALLBACK_RESPONSE }];
+  }
+  return fixtures;
+}
+
+function hashString(value: string): number {
+  let hash = 0;
+  for (let i = 0; i < value.length; i++) {
+    hash = (hash * 31 + value.charCodeAt(i)) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * The same conversation always gets the same response. MOCK_FIXTURE pins one
+ * fixture by name; a continuation request resumes the fixture it was cut from.
+ */
+function pickResponse(messages: ChatMessage[]): string {
+  const available = loadFixtures();
+
+  const pinned = process.env.MOCK_FIXTURE;
+  if (pinned) {
+    const fixture = available.find((f) => f.name === pinned);
+    if (fixture) return fixture.response;
+  }
+
+  const previous = messages[messages.length - 2];
+  if (previous?.role === "assistant") {
+    const resumed = available.find(
+      (f) => f.response.length > previous.content.length && f.response.startsWith(previous.content)
+    );
+    if (resumed) return resumed.response.slice(previous.content.length);
+  }
+
+  const lastUserMessage = [...messages].reverse().find((m) => m.role === "user");
+  return available[hashString(lastUserMessage?.content || "") % available.length]!.response;
+}
+
+// Rough count, close enough for usage reporting in offline runs
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const aborted = () => new DOMException("The operation was aborted", "AbortError");
+    if (signal?.aborted) {
+      reject(aborted());
+      return;
+    }
+    // A Stop during the delay ends the wait right away
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(aborted());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+export const mockProvider: LLMProvider = {
+  id: "mock",
+  utilityModel: "mock-forge",
+
+  async *streamMessages(options: StreamMessagesOptions): AsyncIterable<ProviderStreamEvent> {
+    const inputTokens = estimateTokens(
+      options.system + options.messages.map((m) => m.content).join("")
+    );
+    yield { type: "usage", usage: { inputTokens, outputTokens: 0 } };
+
+    // Honour maxTokens like a real model would, which makes continuations testable
+    let response = pickResponse(options.messages);
+    let stopReason = "end_turn";
+    if (estimateTokens(response) > options.maxTokens) {
+      response = response.slice(0, options.maxTokens * 4);
+      stopReason = "max_tokens";
+    }
+
+    for (let i = 0; i < response.length; i += CHUNK_SIZE) {
+      await sleep(STREAM_DELAY_MS, options.signal);
+      yield { type: "text", text: response.slice(i, i + CHUNK_SIZE) };
+    }
+
+    yield { type: "usage", usage: { inputTokens, outputTokens: estimateTokens(response) } };
+    yield { type: "stop", stopReason };
+  },
+
+  async generateText(options) {
+    // Echo the start of the quoted idea, or of the prompt itself
+    const quoted = options.prompt.match(/"([^"]+)"/);
+    const text = (quoted ? quoted[1]! : options.prompt).split(/\s+/).slice(0, 4).join(" ");
+
+    return {
+      text,
+      usage: {
+        inputTokens: estimateTokens(options.system + options.prompt),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  },
+};
@@ -0,0 +1,81 @@
+import type { ProviderId } from "./types";
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  provider: ProviderId;
+  contextWindow: number; // Tokens
+  maxOutputTokens: number;
+  inputCostPerToken: number; // USD
+  outputCostPerToken: number; // USD
+  enabled: boolean;
+}
+
+export const DEFAULT_MODEL_ID = "claude-3-7-sonnet-20250219";
+
+const MODELS: ModelInfo[] = [
+  {
+    id: "claude-3-7-sonnet-20250219",
+    label: "Claude 3.7 Sonnet",
+    provider: "anthropic",
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputCostPerToken: 0.000003,
+    outputCostPerToken: 0.000015,
+    enabled: true,
+  },
+  {
+    id: "claude-sonnet-4-20250514",
+    label: "Claude Sonnet 4",
+    provider: "anthropic",
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputCostPerToken: 0.000003,
+    outputCostPerToken: 0.000015,
+    enabled: true,
+  },
+  {
+    id: "gpt-4o",
+    label: "GPT-4o",
+    provider: "openai",
+    contextWindow: 128_000,
+    maxOutputTokens: 16_384,
+    inputCostPerToken: 0.0000025,
+    outputCostPerToken: 0.00001,
+    enabled: false,
+  },
+  {
+    id: "gpt-4.1",
+    label: "GPT-4.1",
+    provider: "openai",
+    contextWindow: 1_047_576,
+    maxOutputTokens: 32_768,
+    inputCostPerToken: 0.000002,
+    outputCostPerToken: 0.000008,
+    enabled: false,
+  },
+  {
+    id: "mock-forge",
+    label: "Mock (recorded responses)",
+    provider: "mock",
+    contextWindow: 200_000,
+    maxOutputTokens: 64_000,
+    inputCostPerToken: 0,
+    outputCostPerToken: 0,
+    enabled: process.env.LLM_PROVIDER === "mock",
+  },
+];
+
+/**
+ * Look up a model, disabled ones included
+ */
+export function getModel(id: string): ModelInfo | undefined {
+  return MODELS.find((model) => model.id === id);
+}
+
+/**
+ * Models clients may pick from
+ */
+export function listModels(): ModelInfo[] {
+  return MODELS.filter((model) => model.enabled);
+}
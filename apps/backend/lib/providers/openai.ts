@@ -0,0 +1,64 @@
+import { generateText, streamText } from "ai";
+import { openai } from "@ai-sdk/openai";
+import type { LLMProvider, ProviderStreamEvent, StreamMessagesOptions } from "./types";
+
+// The ai package reports "length" where Anthropic says "max_tokens"
+const STOP_REASONS: Record<string, string> = {
+  stop: "end_turn",
+  length: "max_tokens",
+  "content-filter": "refusal",
+  "tool-calls": "tool_use",
+};
+
+export const openaiProvider: LLMProvider = {
+  id: "openai",
+  utilityModel: "gpt-4o",
+
+  async *streamMessages(options: StreamMessagesOptions): AsyncIterable<ProviderStreamEvent> {
+    const result = streamText({
+      model: openai(options.model),
+      system: options.system,
+      messages: options.messages,
+      maxOutputTokens: options.maxTokens,
+      temperature: options.temperature,
+      abortSignal: options.signal,
+    });
+
+    for await (const part of result.fullStream) {
+      if (part.type === "text-delta") {
+        yield { type: "text", text: part.text };
+      } else if (part.type === "finish") {
+        yield {
+          type: "usage",
+          usage: {
+            inputTokens: part.totalUsage.inputTokens || 0,
+            outputTokens: part.totalUsage.outputTokens || 0,
+          },
+        };
+        yield { type: "stop", stopReason: STOP_REASONS[part.finishReason] || part.finishReason };
+      } else if (part.type === "error") {
+        throw part.error;
+      }
+    }
+  },
+
+  async generateText(options) {
+    const response = await generateText({
+      model: openai(options.model),
+      messages: [
+        { role: "system", content: options.system },
+        { role: "user", content: options.prompt },
+      ],
+      maxOutputTokens: options.maxTokens,
+      temperature: options.temperature,
+    });
+
+    return {
+      text: response.text,
+      usage: {
+        inputTokens: response.usage.inputTokens || 0,
+        outputTokens: response.usage.outputTokens || 0,
+      },
+    };
+  },
+};
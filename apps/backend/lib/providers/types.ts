@@ -0,0 +1,49 @@
+export type ProviderId = "anthropic" | "openai" | "mock";
+
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface ProviderUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Normalized stream output. Usage values are running totals for the call,
+ * stopReason uses Anthropic's vocabulary ("end_turn", "max_tokens", ...)
+ */
+export type ProviderStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "usage"; usage: ProviderUsage }
+  | { type: "stop"; stopReason: string | null };
+
+export interface StreamMessagesOptions {
+  model: string;
+  system: string;
+  messages: ChatMessage[];
+  maxTokens: number;
+  temperature: number;
+  signal?: AbortSignal;
+}
+
+export interface GenerateTextOptions {
+  model: string;
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+export interface GenerateTextResult {
+  text: string;
+  usage: ProviderUsage;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  utilityModel: string; // Cheap model for short generations such as project names
+  streamMessages(options: StreamMessagesOptions): AsyncIterable<ProviderStreamEvent>;
+  generateText(options: GenerateTextOptions): Promise<GenerateTextResult>;
+}
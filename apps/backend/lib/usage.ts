@@ -0,0 +1,150 @@
+import type { User } from "@prisma/client";
+import { prismaClient } from "../prisma";
+import type { ModelInfo } from "./providers";
+
+export type UsagePeriod = "daily" | "monthly";
+
+export interface QuotaStatus {
+  period: UsagePeriod;
+  limit: number | null; // null means unlimited
+  used: number;
+  remaining: number | null;
+  resetsAt: string;
+}
+
+export interface UsageBucket {
+  period: string; // "2026-10-19" for daily, "2026-10" for monthly
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  cost: number;
+}
+
+// 0 means no limit, wherever the limit is set
+function toLimit(value: number): number | null {
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : null;
+}
+
+// Unset means no limit as well
+function limitFromEnv(name: string): number | null {
+  return toLimit(Number(process.env[name]));
+}
+
+// A user without an own limit (null) gets the one from the environment
+function resolveLimit(userLimit: number | null, envName: string): number | null {
+  return userLimit === null ? limitFromEnv(envName) : toLimit(userLimit);
+}
+
+/**
+ * Start of the period containing `date`, in UTC
+ */
+export function periodStart(period: UsagePeriod, date: Date): Date {
+  return period === "daily"
+    ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+    : new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+function nextPeriodStart(period: UsagePeriod, date: Date): Date {
+  const start = periodStart(period, date);
+  return period === "daily"
+    ? new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 1))
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+}
+
+function bucketKey(period: UsagePeriod, date: Date): string {
+  const iso = date.toISOString();
+  return period === "daily" ? iso.slice(0, 10) : iso.slice(0, 7);
+}
+
+export function estimateCost(model: ModelInfo, inputTokens: number, outputTokens: number): number {
+  return inputTokens * model.inputCostPerToken + outputTokens * model.outputCostPerToken;
+}
+
+export async function recordUsage(data: {
+  userId: string;
+  projectId: string;
+  model: ModelInfo;
+  inputTokens: number;
+  outputTokens: number;
+  durationMs: number;
+}) {
+  return prismaClient.usage.create({
+    data: {
+      userId: data.userId,
+      projectId: data.projectId,
+      model: data.model.id,
+      inputTokens: data.inputTokens,
+      outputTokens: data.outputTokens,
+      cost: estimateCost(data.model, data.inputTokens, data.outputTokens),
+      durationMs: Math.round(data.durationMs),
+    },
+  });
+}
+
+async function tokensUsedSince(userId: string, since: Date): Promise<number> {
+  const result = await prismaClient.usage.aggregate({
+    where: { userId, createdAt: { gte: since } },
+    _sum: { inputTokens: true, outputTokens: true },
+  });
+  return (result._sum.inputTokens || 0) + (result._sum.outputTokens || 0);
+}
+
+/**
+ * Daily and monthly token allowance of a user. Limits come from
+ * USAGE_DAILY_TOKEN_LIMIT / USAGE_MONTHLY_TOKEN_LIMIT unless set on the user;
+ * a limit of 0 means unlimited in both places.
+ */
+export async function getQuotaStatus(user: User, now = new Date()): Promise<QuotaStatus[]> {
+  const limits: Record<UsagePeriod, number | null> = {
+    daily: resolveLimit(user.dailyTokenLimit, "USAGE_DAILY_TOKEN_LIMIT"),
+    monthly: resolveLimit(user.monthlyTokenLimit, "USAGE_MONTHLY_TOKEN_LIMIT"),
+  };
+
+  return Promise.all(
+    (["daily", "monthly"] as const).map(async (period) => {
+      const used = await tokensUsedSince(user.id, periodStart(period, now));
+      const limit = limits[period];
+      return {
+        period,
+        limit,
+        used,
+        remaining: limit === null ? null : Math.max(0, limit - used),
+        resetsAt: nextPeriodStart(period, now).toISOString(),
+      };
+    })
+  );
+}
+
+/**
+ * Token totals per day or month for the half-open range [from, to)
+ */
+export async function aggregateUsage(
+  userId: string,
+  period: UsagePeriod,
+  from: Date,
+  to: Date
+): Promise<UsageBucket[]> {
+  const records = await prismaClient.usage.findMany({
+    where: { userId, createdAt: { gte: from, lt: to } },
+    select: { createdAt: true, inputTokens: true, outputTokens: true, cost: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const buckets = new Map<string, UsageBucket>();
+  for (const record of records) {
+    const key = bucketKey(period, record.createdAt);
+    let bucket = buckets.get(key);
+    if (!bucket) {
+      bucket = { period: key, requests: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, cost: 0 };
+      buckets.set(key, bucket);
+    }
+    bucket.requests++;
+    bucket.inputTokens += record.inputTokens;
+    bucket.outputTokens += record.outputTokens;
+    bucket.totalTokens += record.inputTokens + record.outputTokens;
+    bucket.cost += record.cost;
+  }
+
+  return [...buckets.values()];
+}
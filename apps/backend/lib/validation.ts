@@ -0,0 +1,139 @@
+import { escapesRoot, tokenizeForge, toAction, validateResponse, type Action, type ValidationReport } from "@repo/artifacts";
+import type { Prisma } from "@prisma/client";
+import { WORK_DIR } from "../prompts/constants";
+import { closeUnterminatedArtifact } from "./continuation";
+
+/**
+ * A forgeAction and where it is in the response, from its opening tag to its closing tag
+ */
+interface LocatedAction {
+  start: number;
+  end: number;
+  attributes: Record<string, string>;
+  action: Action | null; // null when it is invalid or the response ended inside it
+}
+
+const isWithin = (path: string, dir: string) => path === dir || path.startsWith(`${dir}/`);
+
+function touches(action: Action, path: string): boolean {
+  switch (action.type) {
+    case "delete":
+    case "patch":
+      return isWithin(path, action.filePath);
+    case "rename":
+      return isWithin(path, action.from) || isWithin(path, action.to);
+    default:
+      return false;
+  }
+}
+
+/**
+ * The actions of a response as the artifact parsers see them, escaped markup included
+ */
+function locateActions(response: string): LocatedAction[] {
+  const located: LocatedAction[] = [];
+  let open: { start: number; attributes: Record<string, string>; content: string } | null = null;
+
+  for (const event of tokenizeForge(response)) {
+    if (event.type === "action_open") {
+      open = { start: event.start, attributes: event.attributes, content: "" };
+    } else if (event.type === "action_delta" && open) {
+      open.content += event.content;
+    } else if (event.type === "action_close" && open) {
+      located.push({
+        start: open.start,
+        end: event.end,
+        attributes: open.attributes,
+        action: event.complete ? toAction(open.attributes, open.content, WORK_DIR) : null,
+      });
+      open = null;
+    }
+  }
+  return located;
+}
+
+/**
+ * Actions with a path outside the project, no client may ever apply them
+ */
+function escapingActions(actions: LocatedAction[]): LocatedAction[] {
+  return actions.filter(({ attributes: { filePath, from, to } }) =>
+    [filePath, from, to].some((path) => path && escapesRoot(path, WORK_DIR))
+  );
+}
+
+/**
+ * File actions that a later action in the response writes again in full.
+ * An action is kept when anything in between patches, moves or deletes the file.
+ */
+function supersededFileActions(actions: LocatedAction[]): LocatedAction[] {
+  return actions.filter(({ action }, index) => {
+    if (action?.type !== "file") return false;
+    for (const later of actions.slice(index + 1)) {
+      if (!later.action) continue;
+      if (later.action.type === "file" && later.action.filePath === action.filePath) return true;
+      if (touches(later.action, action.filePath)) return false;
+    }
+    return false;
+  });
+}
+
+/**
+ * Cut actions out of the response together with the indentation before them
+ * and the line break after them
+ */
+function removeActions(response: string, actions: LocatedAction[]): string {
+  let content = "";
+  let cursor = 0;
+  const isBlank = (char: string | undefined) => char === " " || char === "\t";
+
+  for (const { start, end } of [...actions].sort((a, b) => a.start - b.start)) {
+    let from = start;
+    while (from > cursor && isBlank(response[from - 1])) from--;
+    let to = end;
+    while (isBlank(response[to])) to++;
+    if (response[to] === "\n") to++;
+
+    content += response.slice(cursor, Math.max(cursor, from));
+    cursor = Math.max(cursor, to);
+  }
+  return content + response.slice(cursor);
+}
+
+/**
+ * Validate a finished response and fix what is safe to fix before it is saved:
+ * actions outside the project and duplicate file actions are removed and,
+ * unless the user stopped the generation, an unterminated artifact is closed.
+ * The report lists the problems of the original response with the fixed ones
+ * marked as repaired.
+ */
+export function repairResponse(
+  response: string,
+  options: { closeTags: boolean }
+): { content: string; report: ValidationReport } {
+  const original = validateResponse(response, { workDir: WORK_DIR });
+  if (original.issues.length === 0) {
+    return { content: response, report: original };
+  }
+
+  const actions = locateActions(response);
+  const cleaned = removeActions(response, [...escapingActions(actions), ...supersededFileActions(actions)]);
+  const content = options.closeTags ? closeUnterminatedArtifact(cleaned) : cleaned;
+  const repaired = validateResponse(content, { workDir: WORK_DIR });
+
+  const key = (issue: { code: string; path?: string }) => `${issue.code}:${issue.path ?? ""}`;
+  const remaining = new Set(repaired.issues.map(key));
+  return {
+    content,
+    report: {
+      valid: repaired.valid,
+      issues: original.issues.map((issue) => (remaining.has(key(issue)) ? issue : { ...issue, repaired: true })),
+    },
+  };
+}
+
+/**
+ * The report as a value for a Prisma Json column
+ */
+export function validationReportToJson(report: ValidationReport): Prisma.InputJsonObject {
+  return { ...report, issues: report.issues.map((issue) => ({ ...issue })) };
+}
@@ -6,7 +6,7 @@ const JWKS = createRemoteJWKSet(new URL(process.env.PRIVY_JWKS_URL!))
 export async function authMiddleware(req: Request, res: Response, next: NextFunction) {
   res.setHeader("Access-Control-Allow-Origin", req.headers.origin || "*");
   res.setHeader("Access-Control-Allow-Credentials", "true");
-  res.setHeader("Access-Control-Allow-Methods", "POST, OPTIONS");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, OPTIONS");
   res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, Accept, Origin, X-Requested-With");
 
   if (req.method === 'OPTIONS') {
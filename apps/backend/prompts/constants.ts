@@ -1,5 +1,5 @@
-export const WORK_DIR_NAME = 'project';
-export const WORK_DIR = `/home/${WORK_DIR_NAME}`;
+// Shared with the artifact parsers, absolute action paths below it are project paths
+export { WORK_DIR, WORK_DIR_NAME } from '@repo/artifacts';
 
 export const MODIFICATIONS_TAG_NAME = 'modifications';
 
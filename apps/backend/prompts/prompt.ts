@@ -150,6 +150,35 @@ export const SYSTEM_PROMPT = (cwd: string = WORK_DIR) => `
 
 	      - file: For writing new files or updating existing files. For each file add a \`filePath\` attribute to the opening \`<forgeAction>\` tag to specify the file path. The content of the file artifact is the file contents. All file paths MUST BE relative to the current working directory.
 
+	      - delete: For removing a file or folder that is no longer needed. Add a \`filePath\` attribute with the path to remove; removing a folder removes everything in it. The action has no content, e.g. \`<forgeAction type="delete" filePath="src/components/OldBanner.tsx"></forgeAction>\`.
+
+	      - rename: For renaming or moving a file or folder. Add a \`from\` attribute with the current path and a \`to\` attribute with the new path. The action has no content, e.g. \`<forgeAction type="rename" from="src/components/Nav.tsx" to="src/components/navigation/Nav.tsx"></forgeAction>\`. If the contents change too, follow it with a \`file\` action for the new path.
+
+	      - patch: For small changes to a file that already exists. Add a \`filePath\` attribute; the content is a change against the CURRENT contents of that file, either as unified diff hunks:
+
+		<forgeAction type="patch" filePath="src/components/Counter.tsx">
+		@@ -4,3 +4,3 @@
+		 export function Counter() {
+		-  const [count, setCount] = useState(0);
+		+  const [count, setCount] = useState(10);
+		 return (
+		</forgeAction>
+
+		or as one or more SEARCH/REPLACE blocks, where the SEARCH text must match exactly one place in the file:
+
+		<forgeAction type="patch" filePath="src/components/Counter.tsx">
+		<<<<<<< SEARCH
+		  const [count, setCount] = useState(0);
+		=======
+		  const [count, setCount] = useState(10);
+		>>>>>>> REPLACE
+		</forgeAction>
+
+		- Copy context and SEARCH lines character for character from the current file, including indentation.
+		- Use a \`file\` action instead for new files, for files you have not seen the contents of and when most of a file changes.
+
+		- ALWAYS delete or rename files that are replaced instead of leaving stale copies behind, and update every import that points at them.
+
 	    9. The order of the actions is VERY IMPORTANT. For Solana dApps:
 	       - First create the dApp using create-solana-dapp
 	       - Then modify/add custom components and program interactions
@@ -161,11 +190,11 @@ export const SYSTEM_PROMPT = (cwd: string = WORK_DIR) => `
 
 	      IMPORTANT: The create-solana-dapp command will set up all basic Solana dependencies automatically!
 
-	    11. CRITICAL: Always provide the FULL, updated content of the artifact. This means:
+	    11. CRITICAL: Every \`file\` action must contain the FULL, updated content of the file. This means:
 
 	      - Include ALL code, even if parts are unchanged
 	      - NEVER use placeholders like "// rest of the code remains the same..." or "<- leave original code here ->"
-	      - ALWAYS show the complete, up-to-date file contents when updating files
+	      - To change only part of an existing file, use a \`patch\` action instead of a shortened \`file\` action
 	      - Avoid any form of truncation or summarization
 
 	    12. When running a dev server for Solana dApps, NEVER say something like "You can now view X by opening the provided local server URL in your browser." The preview will be opened automatically or by the user manually!
@@ -522,6 +551,22 @@ export const CONTINUE_PROMPT = stripIndents`
 	  Do not repeat any content, including artifact and action tags.
 	`;
 
+export const PATCH_FALLBACK_PROMPT = (failures: { path: string; error: string; content: string }[]) => {
+  const instructions = stripIndents`
+	  Some of your \`patch\` actions could not be applied to the current files:
+	  ${failures.map(({ path, error }) => `- ${path}: ${error}`).join('\n')}
+
+	  Reply with ONLY a new \`<forgeArtifact>\` that has one \`file\` action per file listed above, containing the FULL file with your intended changes applied. Do not use \`patch\` actions and do not repeat any other action.
+	`;
+  // File contents are added after stripIndents, it would remove their indentation
+  const files = failures
+    .filter(({ content }) => content)
+    .map(({ path, content }) => `<file path="${path}">\n${content}\n</file>`);
+  return files.length
+    ? `${instructions}\n\nThese are the current contents the patches were made against:\n${files.join('\n')}`
+    : instructions;
+};
+
 export interface PromptConfig {
   temperature: number;
   maxTokens: number;
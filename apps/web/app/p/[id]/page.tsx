@@ -22,12 +22,41 @@ import { Navigation } from "../../../components/navigation";
 import { ProjectsSidebar } from "../../../components/ProjectsSidebar";
 import { AIResponseRenderer } from "../../../components/AIResponseRenderer";
 import { ChatInterface } from "../../../components/ChatInterface";
+import { ShellActionsPanel } from "../../../components/ShellActionsPanel";
+import { PreviewErrorsPanel } from "../../../components/PreviewErrorsPanel";
+import { TerminalPanel } from "../../../components/TerminalPanel";
 import { AlertCircle, Play, Square } from "lucide-react";
 import Link from "next/link";
-import { API_BASE_URL } from "../../../lib/api";
-import { WebContainer, type WebContainerProcess } from "@webcontainer/api";
-import { WebContainerSingleton } from "../../../lib/webcontainer-singleton";
-import { AIResponseParser, type ParsedFile } from "../../../lib/xml-parser";
+import {
+  API_BASE_URL,
+  saveProjectState,
+  fetchProjectSnapshots,
+  fetchProjectSnapshot,
+  type ProjectSnapshotSummary,
+} from "../../../lib/api";
+import { parseArtifacts, type ValidationReport } from "@repo/artifacts";
+import { webContainerRuntime } from "../../../lib/webcontainer";
+import { useWebContainerRuntime } from "../../../lib/use-webcontainer-runtime";
+import {
+  ChatStreamAccumulator,
+  readChatEventStream,
+  type StreamingFile,
+} from "../../../lib/chat-stream";
+import {
+  AIResponseParser,
+  type ParsedFile,
+  type ProjectState,
+} from "../../../lib/xml-parser";
+import { useModels } from "../../../lib/use-models";
+import { useShellActions } from "../../../lib/use-shell-actions";
+import { usePreviewErrors } from "../../../lib/use-preview-errors";
+import { buildFixPrompt, type PreviewError } from "../../../lib/preview-errors";
+import {
+  applyFileOperation,
+  applyRuntimeChanges,
+  parentPath,
+  type FileOperation,
+} from "../../../lib/file-operations";
 import {
   LoadingSpinner,
   InlineLoader,
@@ -37,6 +66,8 @@ interface Prompt {
   id: string;
   content: string;
   type: "USER" | "SYSTEM";
+  interrupted?: boolean; // Generation was stopped before the model finished
+  validation?: ValidationReport | null;
   createdAt: string;
 }
 
@@ -46,28 +77,20 @@ interface Project {
   userId: string;
   createdAt: string;
   updatedAt: string;
+  state?: ProjectState | null;
   prompts: Prompt[];
 }
 
+// How the page waits for the server to save a stopped response
+const INTERRUPTION_POLL_INTERVAL_MS = 500;
+const INTERRUPTION_POLL_ATTEMPTS = 20;
+
 type ProjectStatus = "creating" | "generating" | "completed" | "error";
 
 interface ProjectWithStatus extends Omit<Project, "prompts"> {
   status?: ProjectStatus;
 }
 
-interface ExecutionStep {
-  id: string;
-  name: string;
-  status: "idle" | "running" | "success" | "error";
-  output?: string;
-  timestamp: number;
-}
-
-const AVAILABLE_MODELS = [
-  { value: "claude-3-7-sonnet-20250219", label: "Claude 3.7 Sonnet" },
-  { value: "claude-sonnet-4-20250514", label: "Claude Sonnet 4" },
-] as const;
-
 export default function ProjectPage(): JSX.Element {
   const params = useParams();
   const searchParams = useSearchParams();
@@ -79,13 +102,20 @@ export default function ProjectPage(): JSX.Element {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>("");
   const [newPrompt, setNewPrompt] = useState<string>("");
-  const [selectedModel, setSelectedModel] = useState<string>(
-    "claude-3-7-sonnet-20250219"
-  );
+  const { models, defaultModel } = useModels();
+  const [selectedModel, setSelectedModel] = useState<string>("");
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [streamingResponse, setStreamingResponse] = useState<string>("");
+  const [streamingFile, setStreamingFile] = useState<StreamingFile | null>(
+    null
+  );
   const [projectFiles, setProjectFiles] = useState<string>("");
   const [existingFiles, setExistingFiles] = useState<string>(""); // Store existing files separately
+  const [projectState, setProjectState] = useState<ProjectState | null>(null);
+  const [snapshots, setSnapshots] = useState<ProjectSnapshotSummary[]>([]);
+  const [restoringPromptId, setRestoringPromptId] = useState<string | null>(
+    null
+  );
   const [currentUserQuery, setCurrentUserQuery] = useState<string>("");
   const [currentAIPlainText, setCurrentAIPlainText] = useState<string>("");
 
@@ -93,45 +123,77 @@ export default function ProjectPage(): JSX.Element {
   const [isLoadingProjects, setIsLoadingProjects] = useState<boolean>(false);
   const [isFirstResponse, setIsFirstResponse] = useState<boolean>(true);
 
-  const [webcontainer, setWebcontainer] = useState<WebContainer | null>(null);
-  const [isBootingContainer, setIsBootingContainer] = useState(false);
-  const [containerReady, setContainerReady] = useState(false);
-  const [currentProcess, setCurrentProcess] =
-    useState<WebContainerProcess | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string>("");
-  const [isRunning, setIsRunning] = useState(false);
-  const [terminalOutput, setTerminalOutput] = useState<string>("");
-  const [steps, setSteps] = useState<ExecutionStep[]>([]);
+  // The container itself lives in the runtime, shared with every component
+  const runtime = useWebContainerRuntime();
+  const containerReady = runtime.status === "ready";
+  const isRunning = !!runtime.devServer;
+  const previewUrl = runtime.previewUrl;
   const [view, setView] = useState<"code" | "preview">("code");
   const [parsedFiles, setParsedFiles] = useState<ParsedFile[]>([]);
+  const [parsedDirectories, setParsedDirectories] = useState<ParsedFile[]>([]);
+  const [dirtyPaths, setDirtyPaths] = useState<string[]>([]); // Files with unsaved edits in the editor
   const [isTerminalMinimized, setIsTerminalMinimized] =
     useState<boolean>(false);
   const [terminalHeight, setTerminalHeight] = useState<number>(200);
   const [fileTreeWidth, setFileTreeWidth] = useState<number>(220);
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const terminalRef = useRef<HTMLDivElement>(null);
+  const savingStateForPromptRef = useRef<string | null>(null);
+  const chatAbortControllerRef = useRef<AbortController | null>(null);
+  // The running stream delivered text, so the server has a partial response to save
+  const receivedResponseRef = useRef(false);
+  // The response a finished generation saved, its shell actions run once its files are in the container
+  const autoRunShellActionsRef = useRef<string | null>(null);
+  // Files commands changed in the container (null when deleted), saved once no response is generating
+  const runtimeChangesRef = useRef(new Map<string, string | null>());
+  const [runtimeChangeCount, setRuntimeChangeCount] = useState(0);
+
+  const shellActions = useShellActions({ enabled: containerReady });
+  const previewErrors = usePreviewErrors();
+
+  useEffect(
+    () =>
+      webContainerRuntime.on("server-ready", ({ url }) =>
+        webContainerRuntime.print(`\n🚀 Dev server ready at: ${url}\n`)
+      ),
+    []
+  );
 
+  // Pick the server default once the catalogue arrives, unless a model was already chosen
   useEffect(() => {
-    if (terminalRef.current) {
-      requestAnimationFrame(() => {
-        if (terminalRef.current) {
-          terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
-        }
-      });
+    if (defaultModel) {
+      setSelectedModel((current) => current || defaultModel);
     }
-  }, [terminalOutput]);
+  }, [defaultModel]);
+
+  const parser = useMemo(() => new AIResponseParser(), []);
+
+  // Completed AI responses in order, compared generation by generation in the diff view
+  const generations = useMemo(
+    () =>
+      (project?.prompts || [])
+        .filter((prompt) => prompt.type === "SYSTEM")
+        .map((prompt) => prompt.content),
+    [project?.prompts]
+  );
+
+  // The latest AI response, whose shell actions the runner shows
+  const latestResponse = useMemo(
+    () =>
+      (project?.prompts || [])
+        .filter((prompt) => prompt.type === "SYSTEM")
+        .pop(),
+    [project?.prompts]
+  );
 
   useEffect(() => {
-    if (terminalOutput && !isTerminalMinimized && terminalRef.current) {
-      requestAnimationFrame(() => {
-        if (terminalRef.current) {
-          terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
-        }
-      });
-    }
-  }, [terminalOutput, isTerminalMinimized]);
+    if (!latestResponse) return;
 
-  const parser = useMemo(() => new AIResponseParser(), []);
+    const commands = parseArtifacts(latestResponse.content)
+      .flatMap((artifact) => artifact.actions)
+      .flatMap((action) => (action.type === "shell" ? [action.command] : []));
+    shellActions.load(latestResponse.id, commands);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [latestResponse?.id]);
 
   useEffect(() => {
     if (streamingResponse) {
@@ -140,35 +202,22 @@ export default function ProjectPage(): JSX.Element {
     }
   }, [streamingResponse, parser]);
 
-  const cleanAnsiCodes = (text: string) => {
-    return text
-      .replace(/\x1B\[[0-9;]*[JKmsu]/g, "")
-      .replace(/\x1B\[[0-9]*[ABCD]/g, "")
-      .replace(/\x1B\[2K/g, "")
-      .replace(/\x1B\[1G/g, "")
-      .replace(/\x1B\[0K/g, "")
-      .replace(/\x1B\[.*?m/g, "") // Remove all color codes
-      .replace(/\r/g, ""); // Remove carriage returns
-  };
-
   useEffect(() => {
-    if (authenticated && !webcontainer && !isBootingContainer) {
-      bootWebContainer();
+    if (authenticated) {
+      webContainerRuntime.boot().catch((err) => {
+        webContainerRuntime.print(`\n❌ Failed to boot WebContainer: ${err}\n`);
+      });
     }
   }, [authenticated]);
 
-  useEffect(() => {
-    return () => {
-      if (currentProcess) {
-        currentProcess.kill();
-      }
-    };
-  }, [currentProcess]);
+  // Processes should not outlive the project page
+  useEffect(() => () => webContainerRuntime.stopAll(), []);
 
   useEffect(() => {
     if (authenticated && projectId) {
       loadProject();
       loadProjects();
+      loadSnapshots();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [authenticated, projectId]);
@@ -178,9 +227,13 @@ export default function ProjectPage(): JSX.Element {
       const initialPrompt = searchParams.get("initialPrompt");
       const model = searchParams.get("model");
 
-      if (initialPrompt && model) {
-        setSelectedModel(model);
-        handleInitialGeneration(initialPrompt, model);
+      if (initialPrompt) {
+        if (model) setSelectedModel(model);
+        // setSelectedModel only applies on the next render, the model goes along explicitly
+        sendPrompt(initialPrompt, {
+          fromInput: false,
+          model: model || undefined,
+        });
 
         window.history.replaceState({}, "", `/p/${projectId}`);
       }
@@ -195,6 +248,31 @@ export default function ProjectPage(): JSX.Element {
         (prompt) => prompt.type === "SYSTEM"
       );
 
+      // Prefer the persisted file tree and only apply responses it has not seen yet
+      const state = project.state;
+      if (state && state.files.length > 0) {
+        const appliedIndex = state.promptId
+          ? systemPrompts.findIndex((prompt) => prompt.id === state.promptId)
+          : -1;
+
+        if (
+          appliedIndex >= 0 ||
+          (!state.promptId && systemPrompts.length === 0)
+        ) {
+          const pendingContent = systemPrompts
+            .slice(appliedIndex + 1)
+            .map((prompt) => prompt.content)
+            .join("\n\n");
+
+          setProjectState(state);
+          setProjectFiles(pendingContent);
+          setExistingFiles("");
+          setIsFirstResponse(false);
+          return;
+        }
+      }
+      setProjectState(null);
+
       // If we have multiple system prompts, the "existing files" should be all but the last one
       // This way the last response is treated as "new" and can be properly merged with boilerplate
       const existingPrompts =
@@ -233,476 +311,353 @@ export default function ProjectPage(): JSX.Element {
 
       // This effect will be replaced by the onParsedFiles callback from AIResponseRenderer
     }
-  }, [project, webcontainer, containerReady]);
+  }, [project, isGenerating]);
 
-  // Mount files to WebContainer when parsedFiles change
+  // Warn before closing or reloading the tab with unsaved edits
   useEffect(() => {
-    if (webcontainer && containerReady && parsedFiles.length > 0) {
-      mountParsedFiles(parsedFiles);
-    }
-  }, [parsedFiles, webcontainer, containerReady]);
+    if (dirtyPaths.length === 0) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [dirtyPaths]);
+
+  useEffect(
+    () =>
+      webContainerRuntime.on("fs-change", ({ changed, removed }) => {
+        changed.forEach(({ path, content }) =>
+          runtimeChangesRef.current.set(path, content)
+        );
+        removed.forEach((path) => runtimeChangesRef.current.set(path, null));
+        setRuntimeChangeCount((count) => count + 1);
+      }),
+    []
+  );
 
-  // Auto-scroll terminal output to bottom
+  // Bring files created by commands in the container into the project
   useEffect(() => {
-    if (terminalRef.current && terminalOutput) {
-      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
+    if (!project || isGenerating || runtimeChangesRef.current.size === 0) {
+      return;
     }
-  }, [terminalOutput]);
 
-  const bootWebContainer = async () => {
-    if (isBootingContainer) return;
-
-    try {
-      setIsBootingContainer(true);
-      addStep({
-        id: "boot",
-        name: "Booting WebContainer",
-        status: "running",
+    const changes = new Map(runtimeChangesRef.current);
+    runtimeChangesRef.current.clear();
+    const next = applyRuntimeChanges(
+      { files: parsedFiles, directories: parsedDirectories },
+      changes
+    );
+    const unchanged =
+      next.files.length === parsedFiles.length &&
+      next.files.every((file, index) => file === parsedFiles[index]) &&
+      next.directories.length === parsedDirectories.length &&
+      next.directories.every((dir, index) => dir === parsedDirectories[index]);
+    if (unchanged) return;
+
+    saveEditedState(next.files, next.directories).catch((err) => {
+      console.error("Failed to save files changed in the WebContainer:", err);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [runtimeChangeCount, isGenerating, project?.id]);
+
+  // Run the commands of a new response after its files are written to the container,
+  // so an install or the dev server never sees the previous package.json or sources
+  const autoRunShellActions = (files: ParsedFile[]): void => {
+    if (
+      isGenerating ||
+      !latestResponse ||
+      autoRunShellActionsRef.current !== latestResponse.id
+    ) {
+      return;
+    }
+    autoRunShellActionsRef.current = null;
+
+    const synced = containerReady
+      ? webContainerRuntime.sync(files)
+      : Promise.resolve();
+    synced
+      .then(() => shellActions.runAll())
+      .catch((err) => {
+        console.error("Failed to sync files before running commands:", err);
       });
+  };
 
-      // Use singleton to ensure only one WebContainer instance
-      const container = await WebContainerSingleton.getInstance();
-      setWebcontainer(container);
-      setContainerReady(true);
-
-      updateStep("boot", { status: "success" });
-
-      // Listen for server-ready events
-      container.on("server-ready", (port, url) => {
-        console.log(`Server ready on port ${port}: ${url}`);
-        setPreviewUrl(url);
-        setTerminalOutput(
-          (prev) => prev + `\n🚀 Dev server ready at: ${url}\n`
-        );
+  // Write changed files to the WebContainer, so the dev server hot reloads them
+  useEffect(() => {
+    if (containerReady && parsedFiles.length > 0) {
+      webContainerRuntime.sync(parsedFiles).catch((err) => {
+        console.error("Failed to sync files:", err);
       });
+    }
+  }, [parsedFiles, containerReady]);
 
-      console.log("WebContainer booted successfully");
+  const fetchProject = useCallback(async (): Promise<Project> => {
+    const token = await getAccessToken();
+    if (!token) {
+      throw new Error("Failed to get authentication token");
+    }
+    const response = await fetch(`${API_BASE_URL}/api/project/${projectId}`, {
+      headers: {
+        Authorization: token,
+        "Content-Type": "application/json",
+      },
+    });
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      const errorMessage =
+        errorData.error || errorData.message || response.statusText;
+      throw new Error(errorMessage);
+    }
+    return response.json();
+  }, [projectId, getAccessToken]);
+
+  const loadProject = useCallback(async (): Promise<void> => {
+    try {
+      setLoading(true);
+      setError("");
+      setProject(await fetchProject());
     } catch (err) {
-      console.error("Failed to boot WebContainer:", err);
-      updateStep("boot", {
-        status: "error",
-        output: err instanceof Error ? err.message : "Unknown error",
-      });
+      console.error("Error loading project:", err);
+      setError(err instanceof Error ? err.message : "Failed to load project");
     } finally {
-      setIsBootingContainer(false);
+      setLoading(false);
     }
-  };
-
-  const mountParsedFiles = async (files: ParsedFile[]) => {
-    if (!webcontainer || !containerReady) return;
+  }, [fetchProject]);
 
+  const loadSnapshots = useCallback(async (): Promise<void> => {
     try {
-      addStep({
-        id: "mount",
-        name: "Mounting project files",
-        status: "running",
-      });
-
-      if (files.length === 0) {
-        console.log("No files to mount");
-        updateStep("mount", { status: "success", output: "No files to mount" });
-        return;
-      }
-
-      console.log(`Mounting ${files.length} files to WebContainer`);
-      console.log(
-        "Files to mount:",
-        files.map((f) => f.path)
-      );
-
-      // Check if package.json is in the files
-      const hasPackageJson = files.some(
-        (f) =>
-          f.path === "package.json" ||
-          f.path === "/package.json" ||
-          f.path.endsWith("/package.json")
-      );
-      console.log("Has package.json:", hasPackageJson);
-
-      // Create a copy of files array so we can modify it
-      const filesToMount = [...files];
-
-      // If no package.json is found, create a basic one
-      if (!hasPackageJson) {
-        console.log(
-          "No package.json found in parsed files, creating a basic one"
-        );
-        const basicPackageJson = {
-          id: "package-json-fallback",
-          name: "package.json",
-          path: "package.json",
-          content: JSON.stringify(
-            {
-              name: "ai-generated-project",
-              version: "1.0.0",
-              type: "module",
-              scripts: {
-                dev: "next dev",
-                build: "next build",
-                start: "next start",
-                lint: "next lint",
-              },
-              dependencies: {
-                next: "^15.0.0",
-                react: "^18.0.0",
-                "react-dom": "^18.0.0",
-              },
-              devDependencies: {
-                "@types/node": "^20.0.0",
-                "@types/react": "^18.0.0",
-                "@types/react-dom": "^18.0.0",
-                typescript: "^5.0.0",
-              },
-            },
-            null,
-            2
-          ),
-          language: "json",
-        };
-        filesToMount.push(basicPackageJson);
-        console.log("Added basic package.json to files");
-      }
-
-      // Convert parsed files to WebContainer file system format
-      const fileSystemTree: Record<string, any> = {};
-
-      // Create directory structure first
-      const directories = new Set<string>();
-      filesToMount.forEach((file) => {
-        const normalizedPath = file.path.replace(/^\/+/, "");
-        const pathParts = normalizedPath.split("/").filter(Boolean);
-        for (let i = 0; i < pathParts.length - 1; i++) {
-          const dirPath = pathParts.slice(0, i + 1).join("/");
-          directories.add(dirPath);
-        }
-      });
-
-      console.log("Directories to create:", Array.from(directories));
-
-      // Add directories to file system tree
-      directories.forEach((dirPath) => {
-        const pathParts = dirPath.split("/");
-        let current = fileSystemTree;
-        pathParts.forEach((part) => {
-          if (!current[part]) {
-            current[part] = { directory: {} };
-          }
-          current = current[part].directory;
-        });
-      });
-
-      // Add files to file system tree
-      filesToMount.forEach((file) => {
-        // Normalize path - remove leading slashes and handle different path formats
-        let normalizedPath = file.path.replace(/^\/+/, "");
-        if (!normalizedPath) {
-          console.warn("Skipping file with empty path:", file.name);
-          return;
-        }
-
-        const pathParts = normalizedPath.split("/").filter(Boolean);
-        const fileName = pathParts.pop()!;
-
-        console.log(`Mounting file: ${file.path} -> ${normalizedPath}`);
-
-        let current = fileSystemTree;
-        pathParts.forEach((part) => {
-          if (!current[part]) {
-            current[part] = { directory: {} };
-          }
-          current = current[part].directory;
-        });
-
-        current[fileName] = {
-          file: {
-            contents: file.content,
-          },
-        };
-      });
-
-      // Mount the file system
-      await webcontainer.mount(fileSystemTree);
-      updateStep("mount", { status: "success" });
+      const token = await getAccessToken();
+      if (!token) return;
 
-      console.log("Files mounted successfully");
-      console.log("File system tree:", Object.keys(fileSystemTree));
+      setSnapshots(await fetchProjectSnapshots(token, projectId));
     } catch (err) {
-      console.error("Failed to mount files:", err);
-      updateStep("mount", {
-        status: "error",
-        output: err instanceof Error ? err.message : "Unknown error",
-      });
+      console.error("Error loading snapshots:", err);
     }
-  };
+  }, [projectId, getAccessToken]);
 
-  const installDependencies = async () => {
-    if (!webcontainer || !containerReady) return;
+  // Persist the resolved file tree once it reflects the latest AI response
+  const persistProjectState = useCallback(
+    async (files: ParsedFile[], directories: ParsedFile[]): Promise<void> => {
+      if (!project || isGenerating) return;
 
-    try {
-      // Check if package.json exists first
-      try {
-        await webcontainer.fs.readFile("/package.json", "utf-8");
-      } catch {
-        throw new Error(
-          "No package.json found. Please ensure your project includes a package.json file."
-        );
+      const systemPrompts = project.prompts.filter(
+        (prompt) => prompt.type === "SYSTEM"
+      );
+      const lastSystemPrompt = systemPrompts[systemPrompts.length - 1];
+      if (!lastSystemPrompt) return;
+      if (
+        project.state?.promptId === lastSystemPrompt.id ||
+        savingStateForPromptRef.current === lastSystemPrompt.id
+      ) {
+        return;
       }
 
-      // Check if node_modules already exists
+      savingStateForPromptRef.current = lastSystemPrompt.id;
       try {
-        await webcontainer.fs.readdir("/node_modules");
-        console.log("Dependencies already installed, skipping...");
-        addStep({
-          id: "install",
-          name: "Dependencies already installed",
-          status: "success",
-        });
-        return;
-      } catch {
-        // node_modules doesn't exist, proceed with install
+        const token = await getAccessToken();
+        if (!token) return;
+
+        const savedState = await saveProjectState(
+          token,
+          project.id,
+          { files, directories, promptId: lastSystemPrompt.id },
+          { files, directories }
+        );
+        setProject((prev) =>
+          prev && prev.id === project.id ? { ...prev, state: savedState } : prev
+        );
+        loadSnapshots();
+      } catch (err) {
+        console.error("Error saving project state:", err);
+        savingStateForPromptRef.current = null;
       }
+    },
+    [project, isGenerating, getAccessToken, loadSnapshots]
+  );
 
-      addStep({
-        id: "install",
-        name: "Installing dependencies",
-        status: "running",
-      });
-
-      setTerminalOutput((prev) => prev + "\n--- Installing dependencies ---\n");
-
-      // Try npm install with registry and network optimizations
-      const installProcess = await webcontainer.spawn("npm", [
-        "install",
-        "--no-package-lock",
-        "--no-audit",
-        "--no-fund",
-        "--registry=https://registry.npmjs.org/",
-        "--fetch-retries=3",
-        "--fetch-retry-mintimeout=20000",
-        "--fetch-retry-maxtimeout=120000",
-        "--maxsockets=1",
-      ]);
-
-      let output = "";
-      let outputReceived = false;
-
-      // Set up output streaming
-      installProcess.output
-        .pipeTo(
-          new WritableStream({
-            write(data) {
-              output += data;
-              outputReceived = true;
-              const cleanData = cleanAnsiCodes(data);
-              setTerminalOutput((prev) => prev + cleanData);
-              console.log("npm install output:", cleanData);
-
-              // Check for completion indicators
-              if (
-                data.includes("packages installed") ||
-                data.includes("added") ||
-                data.includes("up to date")
-              ) {
-                console.log("Installation appears to be completing...");
-              }
-            },
-          })
-        )
-        .catch((err) => {
-          console.error("Output stream error:", err);
-        });
+  // Persist files changed by the user on top of the latest AI response
+  const saveEditedState = async (
+    files: ParsedFile[],
+    directories: ParsedFile[]
+  ): Promise<void> => {
+    if (!project) return;
+    if (isGenerating) {
+      throw new Error("Wait for the current response to finish first");
+    }
 
-      // Set up progressive timeout warnings
-      const timeouts: NodeJS.Timeout[] = [];
+    const systemPrompts = project.prompts.filter(
+      (prompt) => prompt.type === "SYSTEM"
+    );
+    const lastSystemPrompt = systemPrompts[systemPrompts.length - 1];
 
-      timeouts.push(
-        setTimeout(() => {
-          setTerminalOutput(
-            (prev) => prev + "\n[INFO] Installation in progress... (60s)\n"
-          );
-        }, 60000)
-      );
+    const token = await getAccessToken();
+    if (!token) {
+      throw new Error("Failed to get authentication token");
+    }
 
-      timeouts.push(
-        setTimeout(() => {
-          setTerminalOutput(
-            (prev) =>
-              prev +
-              "\n[INFO] Still installing dependencies... Network may be slow (120s)\n"
-          );
-        }, 120000)
-      );
+    // The first save for a response also records its unedited files as the snapshot;
+    // later saves keep the restore they were made on top of
+    const isFirstSave =
+      !!lastSystemPrompt && project.state?.promptId !== lastSystemPrompt.id;
+    const savedState = await saveProjectState(
+      token,
+      project.id,
+      {
+        files,
+        directories,
+        promptId: lastSystemPrompt?.id,
+        restoredFrom: isFirstSave ? undefined : project.state?.restoredFrom,
+      },
+      isFirstSave
+        ? { files: parsedFiles, directories: parsedDirectories }
+        : undefined
+    );
+    setProject((prev) =>
+      prev && prev.id === project.id ? { ...prev, state: savedState } : prev
+    );
+  };
 
-      timeouts.push(
-        setTimeout(() => {
-          setTerminalOutput(
-            (prev) =>
-              prev + "\n[INFO] Large project installation continues... (180s)\n"
-          );
-        }, 180000)
-      );
+  // Save an edited file into the project state and the running WebContainer
+  const handleSaveFile = async (
+    path: string,
+    content: string
+  ): Promise<void> => {
+    const files = parsedFiles.map((file) =>
+      file.path === path ? { ...file, content } : file
+    );
+    await saveEditedState(files, parsedDirectories);
 
+    if (containerReady) {
       try {
-        console.log("Starting npm install process...");
-        const exitCode = await installProcess.exit;
-        timeouts.forEach(clearTimeout);
-
-        console.log("npm install completed with exit code:", exitCode);
+        await webContainerRuntime.writeFile(path, content);
+      } catch (err) {
+        console.error("Error writing file to WebContainer:", err);
+      }
+    }
+  };
 
-        if (exitCode !== 0) {
-          throw new Error(`npm install failed with exit code ${exitCode}`);
-        }
+  // Apply a file tree change to the project state and the running WebContainer
+  const handleFileOperation = async (
+    operation: FileOperation
+  ): Promise<void> => {
+    const next = applyFileOperation(
+      { files: parsedFiles, directories: parsedDirectories },
+      operation
+    );
+    await saveEditedState(next.files, next.directories);
 
-        // Verify installation worked
-        try {
-          await webcontainer.fs.readdir("/node_modules");
-          console.log("node_modules directory created successfully");
-        } catch {
-          console.warn(
-            "node_modules not found after install, but continuing..."
-          );
+    if (!containerReady) return;
+    try {
+      if (operation.type === "create") {
+        if (operation.isDirectory) {
+          await webContainerRuntime.createDirectory(operation.path);
+        } else {
+          const parent = parentPath(operation.path);
+          if (parent) await webContainerRuntime.createDirectory(parent);
+          await webContainerRuntime.writeFile(operation.path, "");
         }
-      } catch (error) {
-        timeouts.forEach(clearTimeout);
-        throw error;
+      } else if (operation.type === "rename") {
+        await webContainerRuntime.renamePath(operation.from, operation.to);
+      } else {
+        await webContainerRuntime.removePath(operation.path);
       }
-
-      updateStep("install", { status: "success", output });
-      console.log("Dependencies installed successfully");
     } catch (err) {
-      console.error("Failed to install dependencies:", err);
-      updateStep("install", {
-        status: "error",
-        output: err instanceof Error ? err.message : "Unknown error",
-      });
-      throw err; // Re-throw to stop the dev server start
+      console.error("Error applying file operation to WebContainer:", err);
     }
   };
 
-  const stopDevServer = async () => {
-    try {
-      if (currentProcess) {
-        // Kill the current process
-        currentProcess.kill();
-        setCurrentProcess(null);
-        setTerminalOutput(
-          (prev) => prev + "\n🛑 Killing development server process...\n"
-        );
-      }
+  // Run the latest response's shell actions, or install and start the dev server
+  const handleStart = async (): Promise<void> => {
+    if (!containerReady) {
+      webContainerRuntime.print(
+        "❌ WebContainer not ready. Please wait for initialization...\n"
+      );
+      return;
+    }
 
-      // Additional cleanup - try to kill any Node.js processes in WebContainer
-      if (webcontainer) {
-        try {
-          // Kill any node processes
-          const killNodeProc = await webcontainer.spawn("pkill", [
-            "-f",
-            "node",
-          ]);
-          await killNodeProc.exit;
-          setTerminalOutput((prev) => prev + "\n🛑 Killed Node.js processes\n");
-        } catch (err) {
-          // pkill will fail if no processes found, which is expected
-          setTerminalOutput(
-            (prev) => prev + "\n🛑 No additional Node.js processes found\n"
-          );
-        }
+    // The latest response says how to start the project
+    if (shellActions.steps.length > 0) {
+      await shellActions.runAll(true);
+      return;
+    }
 
-        try {
-          // Also try to kill any npm/pnpm processes
-          const killPnpmProc = await webcontainer.spawn("pkill", [
-            "-f",
-            "pnpm",
-          ]);
-          await killPnpmProc.exit;
-          setTerminalOutput((prev) => prev + "\n🛑 Killed pnpm processes\n");
-        } catch (err) {
-          // Expected when no pnpm processes are running
-        }
+    try {
+      webContainerRuntime.print("\n--- Installing dependencies ---\n");
+      const result = await webContainerRuntime.install();
+      if (!result.success) {
+        webContainerRuntime.print(
+          `\n❌ Installation failed with exit code ${result.exitCode}\n`
+        );
+        return;
       }
 
-      // Reset all states
-      setIsRunning(false);
-      setPreviewUrl("");
-      setTerminalOutput(
-        (prev) => prev + "\n✅ Development server stopped successfully\n"
+      webContainerRuntime.print(
+        "\n✅ Installation completed! Starting dev server...\n"
       );
-
-      addStep({
-        id: "stop",
-        name: "Stopped development server",
-        status: "success",
-      });
+      await webContainerRuntime.startDevServer();
     } catch (err) {
-      console.error("Error in stopDevServer:", err);
-      setTerminalOutput(
-        (prev) => prev + `\n❌ Error stopping server: ${err}\n`
-      );
-
-      // Force reset states even if there was an error
-      setIsRunning(false);
-      setCurrentProcess(null);
-      setPreviewUrl("");
-
-      addStep({
-        id: "stop",
-        name: "Force stopped server (with errors)",
-        status: "error",
-      });
+      webContainerRuntime.print(`\n❌ Error: ${err}\n`);
     }
   };
 
-  const addStep = (step: Omit<ExecutionStep, "timestamp">) => {
-    setSteps((prev) => {
-      const existingStepIndex = prev.findIndex((s) => s.id === step.id);
-      if (existingStepIndex >= 0) {
-        // Update existing step instead of adding duplicate
-        return prev.map((s, index) =>
-          index === existingStepIndex ? { ...step, timestamp: Date.now() } : s
-        );
-      }
-      // Add new step
-      return [...prev, { ...step, timestamp: Date.now() }];
-    });
+  const handleStop = (): void => {
+    webContainerRuntime.stopAll();
+    webContainerRuntime.print("\n✅ All processes stopped\n");
   };
 
-  const updateStep = (id: string, updates: Partial<ExecutionStep>) => {
-    setSteps((prev) =>
-      prev.map((step) =>
-        step.id === id ? { ...step, ...updates, timestamp: Date.now() } : step
-      )
+  // Ask before leaving the project while files have unsaved edits
+  const confirmDiscardEdits = (): boolean =>
+    dirtyPaths.length === 0 ||
+    window.confirm(
+      `You have unsaved changes in ${dirtyPaths.length} file${
+        dirtyPaths.length === 1 ? "" : "s"
+      }. Leave this project and discard them?`
     );
-  };
 
-  const loadProject = useCallback(async (): Promise<void> => {
+  // Rewind the editor and the WebContainer to the files produced by an earlier response
+  const handleRestoreSnapshot = async (promptId: string): Promise<void> => {
+    if (!project || isGenerating || restoringPromptId) return;
+
+    const snapshotSummary = snapshots.find((s) => s.promptId === promptId);
+    const systemPrompts = project.prompts.filter(
+      (prompt) => prompt.type === "SYSTEM"
+    );
+    const lastSystemPrompt = systemPrompts[systemPrompts.length - 1];
+    if (!snapshotSummary || !lastSystemPrompt) return;
+
+    setRestoringPromptId(promptId);
     try {
-      setLoading(true);
-      setError("");
       const token = await getAccessToken();
       if (!token) {
-        setError("Failed to get authentication token");
-        return;
+        throw new Error("Failed to get authentication token");
       }
-      const response = await fetch(`${API_BASE_URL}/api/project/${projectId}`, {
-        headers: {
-          Authorization: token,
-          "Content-Type": "application/json",
-        },
+
+      const snapshot = await fetchProjectSnapshot(
+        token,
+        project.id,
+        snapshotSummary.id
+      );
+      // Still applied on top of the latest response, the restore is not reported as user edits
+      const savedState = await saveProjectState(token, project.id, {
+        files: snapshot.state.files,
+        directories: snapshot.state.directories,
+        promptId: lastSystemPrompt.id,
+        restoredFrom: promptId,
       });
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        const errorMessage =
-          errorData.error || errorData.message || response.statusText;
-        throw new Error(errorMessage);
-      }
-      const projectData: Project = await response.json();
-      setProject(projectData);
+      setProject((prev) =>
+        prev && prev.id === project.id ? { ...prev, state: savedState } : prev
+      );
     } catch (err) {
-      console.error("Error loading project:", err);
-      setError(err instanceof Error ? err.message : "Failed to load project");
+      console.error("Error restoring snapshot:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to restore snapshot"
+      );
     } finally {
-      setLoading(false);
+      setRestoringPromptId(null);
     }
-  }, [projectId, getAccessToken]);
+  };
 
   const loadProjects = useCallback(async (): Promise<void> => {
     setIsLoadingProjects(true);
@@ -733,83 +688,83 @@ export default function ProjectPage(): JSX.Element {
     }
   }, [getAccessToken]);
 
-  const handleSubmit = async (): Promise<void> => {
-    if (!newPrompt.trim() || isGenerating || !project) return;
-    setIsGenerating(true);
-    setStreamingResponse("");
-    setError("");
-    setCurrentUserQuery(newPrompt); // Store current user query for conversation display
-    setCurrentAIPlainText(""); // Clear previous AI response
-
+  // Apply /api/chat stream events to the streaming state as they arrive
+  const consumeChatStream = async (chatResponse: Response): Promise<void> => {
+    const accumulator = new ChatStreamAccumulator();
+    receivedResponseRef.current = false;
     try {
-      const token = await getAccessToken();
-      if (!token) {
-        throw new Error("Failed to get authentication token");
-      }
-
-      const chatResponse = await fetch(`${API_BASE_URL}/api/chat`, {
-        method: "POST",
-        headers: {
-          Authorization: token,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          prompt: newPrompt,
-          projectId: project.id,
-          model: selectedModel,
-        }),
+      await readChatEventStream(chatResponse, (event) => {
+        accumulator.apply(event);
+        receivedResponseRef.current = !!accumulator.raw.trim();
+        setStreamingResponse(accumulator.raw);
+        setStreamingFile(accumulator.activeFile);
       });
+    } finally {
+      setStreamingFile(null);
+    }
 
-      if (!chatResponse.ok) {
-        const errorData = await chatResponse.json().catch(() => ({}));
-        const errorMessage =
-          errorData.error || errorData.message || chatResponse.statusText;
-        throw new Error(`Failed to get AI response: ${errorMessage}`);
-      }
+    if (accumulator.error) {
+      throw new Error(`Failed to get AI response: ${accumulator.error}`);
+    }
+    autoRunShellActionsRef.current = accumulator.promptId ?? null;
+  };
 
-      const reader = chatResponse.body?.getReader();
-      const decoder = new TextDecoder();
-      if (!reader) throw new Error("No response stream available");
+  const handleStopGeneration = () => {
+    chatAbortControllerRef.current?.abort();
+  };
 
-      setStreamingResponse("");
+  const isAbortError = (err: unknown): boolean =>
+    err instanceof DOMException && err.name === "AbortError";
+
+  // The server stores the partial response only after it notices the disconnect
+  // and has saved it, so the conversation is polled until it ends with that response
+  const reloadAfterInterruption = async (): Promise<void> => {
+    // Without any text there is usually nothing to wait for, one reload is enough
+    const attempts = receivedResponseRef.current
+      ? INTERRUPTION_POLL_ATTEMPTS
+      : 1;
+    for (let attempt = 1; attempt <= attempts; attempt++) {
+      await new Promise((resolve) =>
+        setTimeout(resolve, INTERRUPTION_POLL_INTERVAL_MS)
+      );
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const chunk = decoder.decode(value, { stream: true });
-          setStreamingResponse((prev) => prev + chunk);
+        const projectData = await fetchProject();
+        const lastPrompt = projectData.prompts[projectData.prompts.length - 1];
+        if (lastPrompt?.type === "SYSTEM" || attempt === attempts) {
+          setProject(projectData);
+          break;
         }
-      } finally {
-        reader.releaseLock();
+      } catch (err) {
+        console.error("Error reloading the interrupted response:", err);
       }
-
-      await loadProject();
-      setStreamingResponse(""); // Clear streaming response after project reload
-      setCurrentUserQuery(""); // Clear current user query
-      setCurrentAIPlainText(""); // Clear current AI plain text
-      setNewPrompt("");
-    } catch (err) {
-      console.error("Error sending prompt:", err);
-      setError(
-        err instanceof Error ? err.message : "Failed to process request"
-      );
-      setStreamingResponse("❌ Error occurred. Please try again.");
-    } finally {
-      setIsGenerating(false);
     }
+    setStreamingResponse("");
+    setCurrentUserQuery("");
+    setCurrentAIPlainText("");
   };
 
-  const handleInitialGeneration = async (
+  // Send a prompt; `fromInput` clears the prompt box once it was sent and
+  // `model` replaces the selected one
+  const sendPrompt = async (
     prompt: string,
-    model: string
+    { fromInput, model }: { fromInput: boolean; model?: string }
   ): Promise<void> => {
-    if (isGenerating || !project) return;
-
+    // The ref is set before the first await, it also catches a second click in the same render
+    if (
+      !prompt.trim() ||
+      isGenerating ||
+      chatAbortControllerRef.current ||
+      !project
+    ) {
+      return;
+    }
     setIsGenerating(true);
     setStreamingResponse("");
     setError("");
     setCurrentUserQuery(prompt); // Store current user query for conversation display
     setCurrentAIPlainText(""); // Clear previous AI response
+    const abortController = new AbortController();
+    chatAbortControllerRef.current = abortController;
 
     try {
       const token = await getAccessToken();
@@ -817,18 +772,18 @@ export default function ProjectPage(): JSX.Element {
         throw new Error("Failed to get authentication token");
       }
 
-      setStreamingResponse("🚀 Initializing AI generation...\n\n");
-
       const chatResponse = await fetch(`${API_BASE_URL}/api/chat`, {
         method: "POST",
         headers: {
           Authorization: token,
           "Content-Type": "application/json",
+          Accept: "text/event-stream",
         },
+        signal: abortController.signal,
         body: JSON.stringify({
           prompt,
           projectId: project.id,
-          model,
+          model: model || selectedModel || undefined, // Backend falls back to its default
         }),
       });
 
@@ -839,39 +794,41 @@ export default function ProjectPage(): JSX.Element {
         throw new Error(`Failed to get AI response: ${errorMessage}`);
       }
 
-      const reader = chatResponse.body?.getReader();
-      const decoder = new TextDecoder();
-      if (!reader) throw new Error("No response stream available");
-
       setStreamingResponse("");
-      try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const chunk = decoder.decode(value, { stream: true });
-          setStreamingResponse((prev) => prev + chunk);
-        }
-      } finally {
-        reader.releaseLock();
-      }
+      await consumeChatStream(chatResponse);
 
       await loadProject();
       setStreamingResponse(""); // Clear streaming response after project reload
       setCurrentUserQuery(""); // Clear current user query
       setCurrentAIPlainText(""); // Clear current AI plain text
+      if (fromInput) setNewPrompt("");
     } catch (err) {
-      console.error("Error in initial generation:", err);
+      if (isAbortError(err)) {
+        if (fromInput) setNewPrompt("");
+        await reloadAfterInterruption();
+        return;
+      }
+      console.error("Error sending prompt:", err);
       setError(
-        err instanceof Error ? err.message : "Failed to process initial request"
-      );
-      setStreamingResponse(
-        "❌ Error occurred during initial generation. Please try again."
+        err instanceof Error ? err.message : "Failed to process request"
       );
+      setStreamingResponse("❌ Error occurred. Please try again.");
     } finally {
+      chatAbortControllerRef.current = null;
       setIsGenerating(false);
     }
   };
 
+  const handleSubmit = (): Promise<void> =>
+    sendPrompt(newPrompt, { fromInput: true });
+
+  // Send an error of the running project and the files it points at as a new prompt
+  const handleFixError = (previewError: PreviewError): void => {
+    if (isGenerating || chatAbortControllerRef.current) return;
+    previewErrors.dismiss(previewError.id);
+    sendPrompt(buildFixPrompt(previewError, parsedFiles), { fromInput: false });
+  };
+
   // Show loader while Privy is initializing
   if (!ready) {
     return (
@@ -940,6 +897,7 @@ export default function ProjectPage(): JSX.Element {
         isLoadingProjects={isLoadingProjects}
         onLoadProjects={loadProjects}
         topOffset={64}
+        confirmNavigation={confirmDiscardEdits}
       />
 
       {/* Main Content */}
@@ -956,11 +914,18 @@ export default function ProjectPage(): JSX.Element {
                 isGenerating={isGenerating}
                 newPrompt={newPrompt}
                 selectedModel={selectedModel}
-                availableModels={AVAILABLE_MODELS}
+                availableModels={models.map((m) => ({
+                  value: m.id,
+                  label: m.label,
+                }))}
                 projectDescription={project?.description}
                 onPromptChange={setNewPrompt}
                 onModelChange={setSelectedModel}
                 onSubmit={handleSubmit}
+                onStop={handleStopGeneration}
+                restorablePromptIds={snapshots.map((s) => s.promptId)}
+                restoringPromptId={restoringPromptId}
+                onRestore={handleRestoreSnapshot}
               />
             </div>
 
@@ -998,123 +963,13 @@ export default function ProjectPage(): JSX.Element {
 
                       {/* Runtime Controls */}
                       <Button
-                        onClick={async () => {
-                          if (!webcontainer || !containerReady) {
-                            setTerminalOutput(
-                              "❌ WebContainer not ready. Please wait for initialization...\n"
-                            );
-                            return;
-                          }
-
-                          try {
-                            // Kill any running processes first
-                            if (currentProcess) {
-                              currentProcess.kill();
-                              setCurrentProcess(null);
-                              setTerminalOutput(
-                                (prev) =>
-                                  prev + "\n🛑 Stopped previous process\n"
-                              );
-                            }
-
-                            // Initialize terminal output if empty
-                            if (!terminalOutput) {
-                              setTerminalOutput(
-                                "🚀 Starting development environment...\n"
-                              );
-                            }
-
-                            setTerminalOutput(
-                              (prev) =>
-                                prev +
-                                "\n--- Installing dependencies with pnpm ---\n"
-                            );
-                            const pnpmInstall = await webcontainer.spawn(
-                              "pnpm",
-                              [
-                                "install",
-                                "--no-frozen-lockfile",
-                                "--registry=https://registry.npmjs.org/",
-                                "--fetch-timeout=300000",
-                                "--fetch-retries=3",
-                              ]
-                            );
-
-                            pnpmInstall.output
-                              .pipeTo(
-                                new WritableStream({
-                                  write(data) {
-                                    const cleanData = cleanAnsiCodes(data);
-                                    setTerminalOutput(
-                                      (prev) => prev + cleanData
-                                    );
-                                  },
-                                })
-                              )
-                              .catch(console.error);
-
-                            const exitCode = await pnpmInstall.exit;
-                            if (exitCode === 0) {
-                              setTerminalOutput(
-                                (prev) =>
-                                  prev +
-                                  "\n✅ Installation completed! Starting dev server...\n"
-                              );
-
-                              // Start dev server automatically after installation
-                              try {
-                                const devServer = await webcontainer.spawn(
-                                  "pnpm",
-                                  ["dev"]
-                                );
-                                setCurrentProcess(devServer);
-                                setIsRunning(true);
-
-                                devServer.output
-                                  .pipeTo(
-                                    new WritableStream({
-                                      write(data) {
-                                        const cleanData = cleanAnsiCodes(data);
-                                        setTerminalOutput(
-                                          (prev) => prev + cleanData
-                                        );
-                                      },
-                                    })
-                                  )
-                                  .catch(console.error);
-
-                                // Wait for the server to be ready
-                                webcontainer.on("server-ready", (port, url) => {
-                                  setPreviewUrl(url);
-                                  setTerminalOutput(
-                                    (prev) =>
-                                      prev +
-                                      `\n🌐 Development server ready at: ${url}\n`
-                                  );
-                                });
-                              } catch (devError) {
-                                setTerminalOutput(
-                                  (prev) =>
-                                    prev +
-                                    `\n❌ Failed to start dev server: ${devError}\n`
-                                );
-                                setIsRunning(false);
-                              }
-                            } else {
-                              setTerminalOutput(
-                                (prev) =>
-                                  prev +
-                                  `\n❌ Installation failed with exit code ${exitCode}\n`
-                              );
-                            }
-                          } catch (err) {
-                            setTerminalOutput(
-                              (prev) => prev + `\n❌ Error: ${err}\n`
-                            );
-                            setIsRunning(false);
-                          }
-                        }}
-                        disabled={!containerReady || isRunning}
+                        onClick={handleStart}
+                        disabled={
+                          !containerReady ||
+                          isRunning ||
+                          runtime.isInstalling ||
+                          shellActions.isRunning
+                        }
                         variant="default"
                         size="sm"
                       >
@@ -1129,68 +984,7 @@ export default function ProjectPage(): JSX.Element {
                       </Button>
 
                       <Button
-                        onClick={async () => {
-                          try {
-                            setTerminalOutput(
-                              (prev) =>
-                                prev + "\n🛑 Stopping all processes...\n"
-                            );
-
-                            // Use the proper stop function with timeout
-                            const stopPromise = stopDevServer();
-                            const timeoutPromise = new Promise((_, reject) =>
-                              setTimeout(
-                                () => reject(new Error("Stop timeout")),
-                                5000
-                              )
-                            );
-
-                            try {
-                              await Promise.race([stopPromise, timeoutPromise]);
-                            } catch (timeoutError) {
-                              setTerminalOutput(
-                                (prev) =>
-                                  prev +
-                                  "\n⚠️ Stop timeout, forcing shutdown...\n"
-                              );
-                            }
-
-                            // Force cleanup regardless of stop function result
-                            if (currentProcess) {
-                              try {
-                                currentProcess.kill();
-                              } catch (killError) {
-                                console.log(
-                                  "Process already killed or error killing:",
-                                  killError
-                                );
-                              }
-                            }
-
-                            // Reset all states immediately
-                            setIsRunning(false);
-                            setCurrentProcess(null);
-                            setPreviewUrl("");
-
-                            setTerminalOutput(
-                              (prev) => prev + "\n✅ All processes stopped\n"
-                            );
-                          } catch (err) {
-                            console.error("Error stopping processes:", err);
-                            setTerminalOutput(
-                              (prev) => prev + `\n❌ Error stopping: ${err}\n`
-                            );
-
-                            // Force stop anyway - this should always work
-                            setIsRunning(false);
-                            setCurrentProcess(null);
-                            setPreviewUrl("");
-                            setTerminalOutput(
-                              (prev) =>
-                                prev + "\n🔨 Force stopped all processes\n"
-                            );
-                          }
-                        }}
+                        onClick={handleStop}
                         disabled={!isRunning}
                         variant="destructive"
                         size="sm"
@@ -1213,31 +1007,42 @@ export default function ProjectPage(): JSX.Element {
                   {/* Main Content Area */}
                   <div className="flex-1 min-h-0">
                     {view === "code" ? (
-                      projectFiles || streamingResponse ? (
+                      projectState || projectFiles || streamingResponse ? (
                         <div className="h-full p-4 overflow-hidden">
                           <AIResponseRenderer
+                            key={projectId}
                             response={
                               isGenerating && streamingResponse
                                 ? streamingResponse
                                 : projectFiles
                             }
                             existingFiles={existingFiles}
+                            projectState={projectState}
+                            generations={generations}
                             useBoilerplate={true}
                             isStreaming={isGenerating && !!streamingResponse}
+                            streamingFile={streamingFile}
                             hasExistingProject={
                               !!projectFiles && !isFirstResponse
                             }
                             disableRuntime={true}
-                            onParsedFiles={(files) => {
+                            onParsedFiles={(files, directories) => {
                               console.log(
                                 "Received parsed files from AIResponseRenderer:",
                                 files.length
                               );
                               setParsedFiles(files);
+                              setParsedDirectories(directories);
+                              persistProjectState(files, directories);
+                              autoRunShellActions(files);
                             }}
-                            terminalOutput={terminalOutput}
+                            hasTerminal={runtime.status !== "idle"}
                             fileTreeWidth={fileTreeWidth}
                             onFileTreeWidthChange={setFileTreeWidth}
+                            editable={!isGenerating}
+                            onSaveFile={handleSaveFile}
+                            onDirtyChange={setDirtyPaths}
+                            onFileOperation={handleFileOperation}
                           />
                         </div>
                       ) : (
@@ -1286,8 +1091,29 @@ export default function ProjectPage(): JSX.Element {
                     )}
                   </div>
 
+                  {previewErrors.errors.length > 0 && (
+                    <PreviewErrorsPanel
+                      errors={previewErrors.errors}
+                      fixDisabled={isGenerating || !project}
+                      onFix={handleFixError}
+                      onDismiss={previewErrors.dismiss}
+                      onClear={previewErrors.clear}
+                    />
+                  )}
+
+                  {shellActions.steps.length > 0 && (
+                    <ShellActionsPanel
+                      steps={shellActions.steps}
+                      isRunning={shellActions.isRunning}
+                      disabled={!containerReady || isGenerating}
+                      onRunAll={() => shellActions.runAll()}
+                      onRun={shellActions.run}
+                      onSkip={shellActions.skip}
+                    />
+                  )}
+
                   {/* Terminal Section */}
-                  {terminalOutput && (
+                  {runtime.status !== "idle" && (
                     <div className="rounded-b-xl bg-black/95 text-green-300 flex-shrink-0">
                       {/* Terminal Resize Handle */}
                       <div
@@ -1327,23 +1153,16 @@ export default function ProjectPage(): JSX.Element {
                       </div>
 
                       <div
-                        className="h-full mb-3 flex flex-col"
+                        className="mb-3 flex flex-col"
                         style={{
                           height: isTerminalMinimized
                             ? "32px"
                             : `${terminalHeight}px`,
                         }}
                       >
-                        <div className="flex items-center justify-between px-4 py-2 bg-black rounded-lg border-white/10 border-b border-border/30">
-                          <div className="flex items-center gap-2">
-                            {/* <div className="w-3 h-3 rounded-full bg-red-500"></div>
-                            <div className="w-3 h-3 rounded-full bg-yellow-500"></div>
-                            <div className="w-3 h-3 rounded-full bg-green-500"></div> */}
-                            <span className="text-xs font-semibold text-white ml-2">
-                              Terminal
-                            </span>
-                          </div>
-                          <div className="flex items-center gap-1">
+                        <TerminalPanel
+                          className="h-full overflow-hidden"
+                          actions={
                             <Button
                               onClick={() =>
                                 setIsTerminalMinimized(!isTerminalMinimized)
@@ -1359,19 +1178,8 @@ export default function ProjectPage(): JSX.Element {
                             >
                               {isTerminalMinimized ? "↑" : "↓"}
                             </Button>
-                          </div>
-                        </div>
-                        {!isTerminalMinimized && (
-                          <div
-                            ref={terminalRef}
-                            className="flex-1 overflow-auto p-4"
-                          >
-                            <pre className="text-xs font-mono whitespace-pre-wrap break-words">
-                              {terminalOutput}
-                              <span className="animate-pulse">▋</span>
-                            </pre>
-                          </div>
-                        )}
+                          }
+                        />
                       </div>
                     </div>
                   )}
@@ -11,6 +11,7 @@ import { ShaderAnimation } from "../components/ui/shader-animation"
 import { PageLoader, InlineLoader, LoadingSpinner } from "../components/ui/loading-spinner"
 import { type JSX, useEffect, useState, useCallback } from "react"
 import { registerUser, API_BASE_URL } from "../lib/api"
+import { useModels } from "../lib/use-models"
 import { useRouter } from "next/navigation"
 import { useTheme } from "next-themes"
 import { AlertCircle } from "lucide-react"
@@ -30,11 +31,6 @@ interface ProjectWithStatus extends Project {
   status?: ProjectStatus
 }
 
-const AVAILABLE_MODELS = [
-  { value: "claude-3-7-sonnet-20250219", label: "Claude 3.7 Sonnet"},
-  { value: "claude-sonnet-4-20250514", label: "Claude Sonnet 4" },
-] as const
-
 export default function Home(): JSX.Element {
   const { login, authenticated, user, logout, ready, getAccessToken } = usePrivy()
   const { createWallet } = useCreateWallet({
@@ -52,10 +48,18 @@ export default function Home(): JSX.Element {
   
   // Form state
   const [prompt, setPrompt] = useState<string>("")
-  const [selectedModel, setSelectedModel] = useState<string>("claude-3-7-sonnet-20250219")
+  const { models, defaultModel } = useModels()
+  const [selectedModel, setSelectedModel] = useState<string>("")
   const [isCreating, setIsCreating] = useState<boolean>(false)
   const [error, setError] = useState<string>("")
 
+  // Pick the server default once the catalogue arrives
+  useEffect(() => {
+    if (defaultModel) {
+      setSelectedModel((current) => current || defaultModel)
+    }
+  }, [defaultModel])
+
   // Projects state for sidebar
   const [projects, setProjects] = useState<ProjectWithStatus[]>([])
   const [isLoadingProjects, setIsLoadingProjects] = useState<boolean>(false)
@@ -210,7 +214,8 @@ export default function Home(): JSX.Element {
       const projectId = projectResult.project
 
       // Navigate to project page with initial prompt and model for immediate AI generation
-      router.push(`/p/${projectId}?initialPrompt=${encodeURIComponent(prompt)}&model=${selectedModel}`)
+      const modelParam = selectedModel ? `&model=${encodeURIComponent(selectedModel)}` : ""
+      router.push(`/p/${projectId}?initialPrompt=${encodeURIComponent(prompt)}${modelParam}`)
     } catch (err) {
       console.error("Error creating project:", err)
       setError(err instanceof Error ? err.message : "An unexpected error occurred")
@@ -347,7 +352,7 @@ export default function Home(): JSX.Element {
                   isLoading={isCreating}
                   placeholder="Describe the Solana application you want to create. Be specific about features, functionality, and any technical requirements..."
                   className="w-full backdrop-blur-sm"
-                  aiModels={AVAILABLE_MODELS}
+                  aiModels={models.map((m) => ({ value: m.id, label: m.label }))}
                   selectedModel={selectedModel}
                   onModelChange={setSelectedModel}
                 />
@@ -1,9 +1,8 @@
 "use client";
 
 import React, { useState, useEffect, useMemo } from "react";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
 
 import {
@@ -13,41 +12,77 @@ import {
   Info,
   Download,
   Play,
+  Code,
+  GitCompare,
+  Save,
+  X,
 } from "lucide-react";
-import { Tree, type TreeViewElement } from "@/components/ui/file-tree";
-import { CodeEditor } from "@/components/CodeEditor";
+import { type TreeViewElement } from "@/components/ui/file-tree";
+import { FileExplorer } from "@/components/FileExplorer";
+import { CodeEditor, CodeDiffEditor } from "@/components/CodeEditor";
+import { ChangedFilesSummary } from "@/components/ChangedFilesSummary";
 import { WebContainerRunner } from "@/components/WebContainerRunner";
 import {
   AIResponseParser,
   type ParsedResponse,
   type ParsedFile,
+  type ProjectState,
 } from "@/lib/xml-parser";
+import { stripTopLevelFolder } from "@repo/artifacts";
+import { diffFileTrees } from "@/lib/file-diff";
+import type { FileOperation } from "@/lib/file-operations";
+import type { StreamingFile } from "@/lib/chat-stream";
 import { fetchBoilerplateComponents } from "@/lib/api";
 
 interface AIResponseRendererProps {
   response: string;
   existingFiles?: string; // Existing files from previous responses
+  projectState?: ProjectState | null; // Persisted file tree, used instead of re-parsing previous responses
+  generations?: string[]; // Completed AI responses in order, compared in the diff view
   useBoilerplate?: boolean; // Flag to enable/disable boilerplate integration
   isStreaming?: boolean; // Flag to indicate if response is being streamed
+  streamingFile?: StreamingFile | null; // File currently being written, reported by the chat event stream
   hasExistingProject?: boolean; // Flag to indicate if this is an existing project with files
   disableRuntime?: boolean; // Flag to disable runtime/WebContainer integration
-  onParsedFiles?: (files: ParsedFile[]) => void; // Callback to get parsed files for external mounting
-  terminalOutput?: string; // Terminal output from project runtime
+  onParsedFiles?: (files: ParsedFile[], directories: ParsedFile[]) => void; // Callback to get parsed files for external mounting
+  hasTerminal?: boolean; // The runtime terminal is shown below
   fileTreeWidth?: number; // Width of the file tree panel
   onFileTreeWidthChange?: (width: number) => void; // Callback for file tree width changes
+  editable?: boolean; // Let the user edit files, saved through onSaveFile
+  onSaveFile?: (path: string, content: string) => Promise<void>; // Persist an edited file
+  onDirtyChange?: (paths: string[]) => void; // Files with unsaved edits
+  onFileOperation?: (operation: FileOperation) => Promise<void>; // Create, rename, move or delete from the file tree
 }
 
+// Copy of the drafts without the given file
+const withoutDraft = (
+  drafts: Record<string, string>,
+  path: string
+): Record<string, string> => {
+  if (!(path in drafts)) return drafts;
+  const next = { ...drafts };
+  delete next[path];
+  return next;
+};
+
 export function AIResponseRenderer({
   response,
   existingFiles = "",
+  projectState = null,
+  generations = [],
   useBoilerplate = true,
   isStreaming = false,
+  streamingFile = null,
   hasExistingProject = false,
   disableRuntime = false,
   onParsedFiles,
-  terminalOutput,
+  hasTerminal = false,
   fileTreeWidth = 220,
   onFileTreeWidthChange,
+  editable = false,
+  onSaveFile,
+  onDirtyChange,
+  onFileOperation,
 }: AIResponseRendererProps) {
   const [selectedFileId, setSelectedFileId] = useState<string>("");
   const [selectedFile, setSelectedFile] = useState<ParsedFile | null>(null);
@@ -60,10 +95,21 @@ export function AIResponseRenderer({
     useState<boolean>(false);
   const [streamingFileContent, setStreamingFileContent] = useState<string>("");
   const [boilerplateApplied, setBoilerplateApplied] = useState<boolean>(false);
-  const [viewMode, setViewMode] = useState<"code" | "runtime">("code");
+  const [viewMode, setViewMode] = useState<"code" | "diff" | "runtime">(
+    "code"
+  );
+  const [diffTurn, setDiffTurn] = useState<number | null>(null); // null follows the latest response
+  const [diffPath, setDiffPath] = useState<string | null>(null);
   const [shouldUpdateWebContainer, setShouldUpdateWebContainer] =
     useState<boolean>(false);
   const [lastSyncedFileCount, setLastSyncedFileCount] = useState<number>(0);
+  const [openTabs, setOpenTabs] = useState<string[]>([]); // Paths of the files open in the editor
+  const [drafts, setDrafts] = useState<Record<string, string>>({}); // Unsaved edits by path
+  const [savingPath, setSavingPath] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [pendingSelectPath, setPendingSelectPath] = useState<string | null>(
+    null
+  ); // Created or renamed file to open once it shows up in the parsed files
 
   const parser = useMemo(() => new AIResponseParser(), []);
 
@@ -162,7 +208,7 @@ export function AIResponseRenderer({
   }, [useBoilerplate]);
 
   useEffect(() => {
-    if (response) {
+    if (response || projectState) {
       console.log("AIResponseRenderer - Input response:", response);
       console.log("AIResponseRenderer - Has existing files:", !!existingFiles);
       console.log(
@@ -176,7 +222,13 @@ export function AIResponseRenderer({
 
       let parsed: ParsedResponse;
 
-      if (useBoilerplate && boilerplateComponents) {
+      if (projectState) {
+        parsed = parser.parseResponseWithState(
+          response,
+          projectState,
+          isStreaming
+        );
+      } else if (useBoilerplate && boilerplateComponents) {
         if (existingFiles) {
           parsed = parser.parseResponseWithExistingFiles(
             response,
@@ -245,7 +297,7 @@ export function AIResponseRenderer({
 
       // Notify parent component about parsed files
       if (onParsedFiles && parsed.files.length > 0) {
-        onParsedFiles(parsed.files);
+        onParsedFiles(parsed.files, parsed.directories);
       }
 
       // Debug logging to see what files we actually have
@@ -267,6 +319,7 @@ export function AIResponseRenderer({
   }, [
     response,
     existingFiles,
+    projectState,
     parser,
     useBoilerplate,
     boilerplateComponents,
@@ -321,9 +374,79 @@ export function AIResponseRenderer({
     }
   }, [parsedResponse, selectedFileId, selectedFile]);
 
+  // Open a file created or renamed from the tree as soon as it has been parsed
+  useEffect(() => {
+    if (!parsedResponse || !pendingSelectPath) return;
+    const file = parsedResponse.files.find((f) => f.path === pendingSelectPath);
+    if (file) {
+      setSelectedFileId(file.id);
+      setSelectedFile(file);
+      setPendingSelectPath(null);
+    }
+  }, [parsedResponse, pendingSelectPath]);
+
+  // Every file shown in the editor gets a tab
+  useEffect(() => {
+    if (!selectedFile || selectedFile.isDirectory) return;
+    setOpenTabs((tabs) =>
+      tabs.includes(selectedFile.path) ? tabs : [...tabs, selectedFile.path]
+    );
+  }, [selectedFile]);
+
+  // Drop tabs and drafts of files that no longer exist
+  useEffect(() => {
+    if (!parsedResponse) return;
+    const paths = new Set(parsedResponse.files.map((file) => file.path));
+    setOpenTabs((tabs) =>
+      tabs.every((path) => paths.has(path))
+        ? tabs
+        : tabs.filter((path) => paths.has(path))
+    );
+    setDrafts((prev) =>
+      Object.keys(prev).reduce(
+        (next, path) => (paths.has(path) ? next : withoutDraft(next, path)),
+        prev
+      )
+    );
+  }, [parsedResponse]);
+
+  useEffect(() => {
+    onDirtyChange?.(Object.keys(drafts));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [drafts]);
+
+  const isStreamingFile = (file: ParsedFile | null): boolean =>
+    !!file &&
+    !!streamingFile &&
+    (file.path === streamingFile.path ||
+      file.path === stripTopLevelFolder(streamingFile.path));
+
+  // Follow the file the event stream reports as being written
+  useEffect(() => {
+    if (!isStreaming || !streamingFile || !parsedResponse) return;
+
+    const file = parsedResponse.files.find(
+      (f) =>
+        f.path === streamingFile.path ||
+        f.path === stripTopLevelFolder(streamingFile.path)
+    );
+    if (file && file.id !== selectedFileId) {
+      setSelectedFileId(file.id);
+      setSelectedFile(file);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isStreaming, streamingFile?.path, parsedResponse]);
+
   // Extract the streaming content for the selected file (LLM response only, not boilerplate)
   useEffect(() => {
-    if (isStreaming && selectedFile && response) {
+    if (isStreaming && selectedFile && streamingFile) {
+      // The event stream says exactly which file is being written, no need to search the response
+      setStreamingFileContent(
+        isStreamingFile(selectedFile)
+          ? streamingFile.content.trim()
+          : selectedFile.content
+      );
+    } else if (isStreaming && selectedFile && response) {
       // Check if this file is from boilerplate (don't stream boilerplate files)
       if (isBoilerplateFile(selectedFile.path)) {
         // For boilerplate files, show content immediately without streaming
@@ -331,56 +454,24 @@ export function AIResponseRenderer({
         return;
       }
 
-      // For LLM-generated files, extract streaming content
-      const escapedPath = selectedFile.path.replace(
-        /[.*+?^${}()|[\]\\]/g,
-        "\\$&"
-      );
-
-      // Look for the file pattern, but be more flexible with incomplete responses
-      const fileStartPattern = new RegExp(
-        `<forgeAction[^>]*filePath="${escapedPath}"[^>]*>`,
-        "i"
+      // The incremental parse already holds what arrived of the file being written
+      const current = parsedResponse?.files.find(
+        (file) => file.path === selectedFile.path
       );
-      const fileStartMatch = response.match(fileStartPattern);
-
-      if (fileStartMatch) {
-        const startIndex =
-          response.indexOf(fileStartMatch[0]) + fileStartMatch[0].length;
-
-        // Find the end of this forgeAction (or end of response if incomplete)
-        const endPattern = /<\/forgeAction>/g;
-        endPattern.lastIndex = startIndex;
-        const endMatch = endPattern.exec(response);
-
-        const endIndex = endMatch ? endMatch.index : response.length;
-
-        // Extract the content between start and end
-        const extractedContent = response
-          .substring(startIndex, endIndex)
-          .trim();
-
-        if (extractedContent && extractedContent !== streamingFileContent) {
-          setStreamingFileContent(extractedContent);
-        }
-      } else {
-        // If we can't find the file in the streaming response yet,
-        // use the parsed file content if available
-        if (
-          selectedFile.content &&
-          selectedFile.content !== streamingFileContent
-        ) {
-          setStreamingFileContent(selectedFile.content);
-        }
+      const content = current?.content || selectedFile.content;
+      if (content && content !== streamingFileContent) {
+        setStreamingFileContent(content);
       }
     } else if (selectedFile && !isStreaming) {
       // When not streaming, use the final file content
       setStreamingFileContent(selectedFile.content);
     }
-  }, [selectedFile, response, isStreaming, streamingFileContent]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedFile, response, isStreaming, streamingFileContent, streamingFile, parsedResponse]);
 
-  const treeData = useMemo(() => {
-    if (!parsedResponse) return [];
+  const { treeData, treeNodes } = useMemo(() => {
+    const treeNodes = new Map<string, ParsedFile>();
+    if (!parsedResponse) return { treeData: [], treeNodes };
 
     // Create a Map to deduplicate files by path
     const uniqueFilesMap = new Map<string, ParsedFile>();
@@ -415,16 +506,87 @@ export function AIResponseRenderer({
     );
 
     // Convert to TreeViewElement format
-    const convertToTreeElement = (file: ParsedFile): TreeViewElement => ({
-      id: file.id,
-      name: file.name,
-      isSelectable: !file.isDirectory, // Directories should not be selectable
-      children: file.children?.map(convertToTreeElement),
-    });
+    const convertToTreeElement = (file: ParsedFile): TreeViewElement => {
+      treeNodes.set(file.id, file);
+      return {
+        id: file.id,
+        name: file.name,
+        isSelectable: !file.isDirectory, // Directories should not be selectable
+        ...(file.origin === "runtime" && {
+          badge: "runtime",
+          badgeTitle: "Created or changed by a command in the WebContainer",
+        }),
+        children: file.children?.map(convertToTreeElement),
+      };
+    };
 
-    return fileTree.map(convertToTreeElement);
+    return { treeData: fileTree.map(convertToTreeElement), treeNodes };
   }, [parsedResponse]);
 
+  // Resolve the file tree after every completed response so any two consecutive
+  // generations can be compared
+  const generationTrees = useMemo(() => {
+    if (
+      generations.length === 0 ||
+      isStreaming ||
+      (useBoilerplate && isLoadingBoilerplate)
+    ) {
+      return [];
+    }
+    return parser.parseGenerations(
+      generations,
+      useBoilerplate ? boilerplateComponents : undefined
+    );
+  }, [
+    generations,
+    isStreaming,
+    useBoilerplate,
+    isLoadingBoilerplate,
+    boilerplateComponents,
+    parser,
+  ]);
+
+  const turnCount = Math.max(generationTrees.length - 1, 0);
+  const activeTurn =
+    diffTurn !== null && diffTurn <= turnCount ? diffTurn : turnCount;
+
+  const turnChanges = useMemo(() => {
+    const before = generationTrees[activeTurn - 1];
+    const after = generationTrees[activeTurn];
+    return before && after ? diffFileTrees(before.files, after.files) : [];
+  }, [generationTrees, activeTurn]);
+
+  // Any file can be compared, unchanged files simply show identical sides
+  const diffTarget = useMemo(() => {
+    const path =
+      diffPath ||
+      (selectedFile &&
+      turnChanges.some((change) => change.path === selectedFile.path)
+        ? selectedFile.path
+        : turnChanges[0]?.path);
+    if (!path) return null;
+
+    const change = turnChanges.find((c) => c.path === path);
+    if (change) return change;
+
+    const before = generationTrees[activeTurn - 1]?.files.find(
+      (f) => f.path === path
+    );
+    const after = generationTrees[activeTurn]?.files.find(
+      (f) => f.path === path
+    );
+    const file = after || before;
+    if (!file) return null;
+
+    return {
+      path,
+      name: file.name,
+      language: file.language,
+      previousContent: before?.content || "",
+      currentContent: after?.content || "",
+    };
+  }, [diffPath, selectedFile, turnChanges, generationTrees, activeTurn]);
+
   const handleFileSelect = (fileId: string) => {
     if (!parsedResponse) return;
 
@@ -450,6 +612,103 @@ export function AIResponseRenderer({
     }
   };
 
+  const findFileByPath = (path: string): ParsedFile | undefined =>
+    parsedResponse?.files.find((file) => file.path === path);
+
+  const handleEditorChange = (file: ParsedFile, value: string | undefined) => {
+    if (!editable || value === undefined) return;
+    // Typing back to the saved content clears the dirty marker
+    setDrafts((prev) =>
+      value === file.content
+        ? withoutDraft(prev, file.path)
+        : { ...prev, [file.path]: value }
+    );
+  };
+
+  const handleSaveFile = async (path: string) => {
+    const content = drafts[path];
+    if (content === undefined || !onSaveFile || savingPath) return;
+
+    setSavingPath(path);
+    setSaveError(null);
+    try {
+      await onSaveFile(path, content);
+      // Keep edits made while the save was in flight
+      setDrafts((prev) =>
+        prev[path] === content ? withoutDraft(prev, path) : prev
+      );
+    } catch (error) {
+      console.error("Error saving file:", error);
+      setSaveError(
+        error instanceof Error ? error.message : "Failed to save file"
+      );
+    } finally {
+      setSavingPath(null);
+    }
+  };
+
+  const handleFileOperation = async (operation: FileOperation) => {
+    if (!onFileOperation) return;
+    if (
+      operation.type === "delete" &&
+      Object.keys(drafts).some(
+        (path) =>
+          path === operation.path || path.startsWith(`${operation.path}/`)
+      ) &&
+      !window.confirm("Unsaved changes in the deleted files will be lost. Continue?")
+    ) {
+      return;
+    }
+
+    await onFileOperation(operation);
+
+    if (operation.type === "create" && !operation.isDirectory) {
+      setPendingSelectPath(operation.path);
+    } else if (operation.type === "rename") {
+      // Tabs and unsaved edits follow the file to its new path
+      const { from, to } = operation;
+      const movePath = (path: string) =>
+        path === from || path.startsWith(`${from}/`)
+          ? to + path.slice(from.length)
+          : path;
+      setOpenTabs((tabs) => tabs.map(movePath));
+      setDrafts((prev) =>
+        Object.fromEntries(
+          Object.entries(prev).map(([path, content]) => [movePath(path), content])
+        )
+      );
+      if (selectedFile) {
+        const selectedPath = movePath(selectedFile.path);
+        if (selectedPath !== selectedFile.path) {
+          setPendingSelectPath(selectedPath);
+        }
+      }
+    }
+  };
+
+  const handleCloseTab = (path: string) => {
+    if (
+      path in drafts &&
+      !window.confirm(
+        `${path} has unsaved changes. Close it and discard them?`
+      )
+    ) {
+      return;
+    }
+
+    const index = openTabs.indexOf(path);
+    const remaining = openTabs.filter((tab) => tab !== path);
+    setOpenTabs(remaining);
+    setDrafts((prev) => withoutDraft(prev, path));
+
+    if (selectedFile?.path === path) {
+      const nextPath = remaining[Math.min(index, remaining.length - 1)];
+      const next = nextPath ? findFileByPath(nextPath) : undefined;
+      setSelectedFileId(next?.id || "");
+      setSelectedFile(next || null);
+    }
+  };
+
   const downloadProject = async () => {
     if (!parsedResponse || parsedResponse.files.length === 0) {
       console.error("No files to download");
@@ -613,6 +872,37 @@ Generated on: ${new Date().toISOString()}
             <div className="ml-auto flex items-center gap-2">
               {/* View Mode Toggle */}
               <div className="flex rounded-lg border border-border/50 p-1">
+                {turnCount > 0 && (
+                  <>
+                    <Button
+                      variant={viewMode === "code" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => setViewMode("code")}
+                      className="flex items-center gap-2 h-8"
+                    >
+                      <Code className="h-4 w-4" />
+                      Code
+                    </Button>
+                    <Button
+                      variant={viewMode === "diff" ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => {
+                        setDiffPath(null);
+                        setViewMode("diff");
+                      }}
+                      className="flex items-center gap-2 h-8"
+                      title="Compare files with the previous response"
+                    >
+                      <GitCompare className="h-4 w-4" />
+                      Diff
+                      {turnChanges.length > 0 && (
+                        <Badge variant="secondary" className="text-xs px-1.5">
+                          {turnChanges.length}
+                        </Badge>
+                      )}
+                    </Button>
+                  </>
+                )}
                 {!disableRuntime && (
                   <Button
                     variant={viewMode === "runtime" ? "default" : "ghost"}
@@ -646,29 +936,62 @@ Generated on: ${new Date().toISOString()}
             </div>
           </div>
 
-          {viewMode === "code" || disableRuntime ? (
+          {viewMode === "diff" && turnCount > 0 ? (
+            <div className="flex gap-1">
+              {/* Changed Files */}
+              <div
+                style={{ width: `${Math.max(fileTreeWidth, 260)}px` }}
+                className="flex-shrink-0"
+              >
+                <ChangedFilesSummary
+                  changes={turnChanges}
+                  selectedPath={diffTarget?.path}
+                  onSelect={setDiffPath}
+                  turn={activeTurn}
+                  turnCount={turnCount}
+                  onTurnChange={(turn) => {
+                    setDiffTurn(turn === turnCount ? null : turn);
+                    setDiffPath(null);
+                  }}
+                  className="h-[785px]"
+                />
+              </div>
+
+              {/* Diff Editor */}
+              <div className="flex-1 py-0 min-w-0">
+                {diffTarget ? (
+                  <CodeDiffEditor
+                    original={diffTarget.previousContent}
+                    modified={diffTarget.currentContent}
+                    language={diffTarget.language}
+                    filename={diffTarget.path}
+                    height={727}
+                  />
+                ) : (
+                  <Card className="h-[785px] flex items-center justify-center">
+                    <CardContent className="text-center">
+                      <GitCompare className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                      <p className="text-muted-foreground">
+                        No file changes in this response
+                      </p>
+                    </CardContent>
+                  </Card>
+                )}
+              </div>
+            </div>
+          ) : viewMode !== "runtime" || disableRuntime ? (
             <div className="flex gap-1">
               {/* File Tree */}
-              <Card
+              <FileExplorer
                 style={{ width: `${fileTreeWidth}px` }}
-                className="flex-shrink-0 h-[785px]  overflow-hidden flex flex-col"
-              >
-                <CardHeader className="flex-shrink-0 pb-3">
-                  <CardTitle className="text-base">File Explorer</CardTitle>
-                </CardHeader>
-                <CardContent className="p-0 flex-1 overflow-hidden">
-                  <ScrollArea className="h-full">
-                    <div className="p-2">
-                      <Tree
-                        data={treeData}
-                        handleSelect={handleFileSelect}
-                        initialSelectedId={selectedFileId}
-                        expandAll={true}
-                      />
-                    </div>
-                  </ScrollArea>
-                </CardContent>
-              </Card>
+                className="flex-shrink-0 h-[785px]"
+                data={treeData}
+                nodes={treeNodes}
+                selectedId={selectedFileId}
+                onSelect={handleFileSelect}
+                editable={editable && !isStreaming && !!onFileOperation}
+                onOperation={handleFileOperation}
+              />
 
               {/* Resize Handle */}
               {onFileTreeWidthChange && (
@@ -707,10 +1030,99 @@ Generated on: ${new Date().toISOString()}
               <div className="flex-1 py-0 min-w-0">
                 {selectedFile ? (
                   <div className="relative">
+                    {/* Open Files */}
+                    <div className="flex items-center gap-1 h-9 mb-1">
+                      <div className="flex flex-1 min-w-0 items-center gap-1 overflow-x-auto">
+                        {openTabs.map((path) => {
+                          const isActive = path === selectedFile.path;
+                          const isDirty = path in drafts;
+                          return (
+                            <div
+                              key={path}
+                              title={path}
+                              className={`group flex flex-shrink-0 items-center gap-1.5 rounded-md border px-2.5 py-1 text-xs cursor-pointer transition-colors ${
+                                isActive
+                                  ? "bg-background border-border text-foreground"
+                                  : "bg-muted/40 border-transparent text-muted-foreground hover:text-foreground"
+                              }`}
+                              onClick={() => {
+                                const file = findFileByPath(path);
+                                if (file) {
+                                  setSelectedFileId(file.id);
+                                  setSelectedFile(file);
+                                }
+                              }}
+                            >
+                              <span className="max-w-[160px] truncate">
+                                {path.split("/").pop()}
+                              </span>
+                              {isDirty && (
+                                <span
+                                  className="h-1.5 w-1.5 rounded-full bg-amber-500"
+                                  title="Unsaved changes"
+                                />
+                              )}
+                              <button
+                                type="button"
+                                className="rounded-sm opacity-60 hover:opacity-100 hover:bg-muted"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  handleCloseTab(path);
+                                }}
+                                title="Close"
+                              >
+                                <X className="h-3 w-3" />
+                              </button>
+                            </div>
+                          );
+                        })}
+                      </div>
+                      {!isStreaming &&
+                        parsedResponse?.patchConflicts
+                          ?.filter((conflict) => conflict.path === selectedFile.path)
+                          .map((conflict) => (
+                            <span
+                              key={conflict.error}
+                              className="flex flex-shrink-0 max-w-[240px] items-center gap-1 text-xs text-amber-600"
+                              title={`The AI's patch for this file did not apply: ${conflict.error}`}
+                            >
+                              <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                              <span className="truncate">Patch not applied</span>
+                            </span>
+                          ))}
+                      {saveError && (
+                        <span
+                          className="flex-shrink-0 max-w-[240px] truncate text-xs text-destructive"
+                          title={saveError}
+                        >
+                          {saveError}
+                        </span>
+                      )}
+                      {editable && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="flex-shrink-0 h-7 gap-1.5"
+                          disabled={
+                            !(selectedFile.path in drafts) ||
+                            !!savingPath ||
+                            isStreaming
+                          }
+                          onClick={() => handleSaveFile(selectedFile.path)}
+                          title="Save file (Ctrl+S)"
+                        >
+                          <Save className="h-3.5 w-3.5" />
+                          {savingPath === selectedFile.path
+                            ? "Saving..."
+                            : "Save"}
+                        </Button>
+                      )}
+                    </div>
                     {isStreaming &&
-                      selectedFile &&
-                      !isBoilerplateFile(selectedFile.path) && (
-                        <div className="absolute top-4 right-4 z-10">
+                      (streamingFile
+                        ? isStreamingFile(selectedFile)
+                        : !isBoilerplateFile(selectedFile.path)) && (
+                        <div className="absolute top-14 right-4 z-10">
                           <div className="flex items-center gap-2 bg-blue-500/10 border border-blue-500/20 rounded-lg px-3 py-1">
                             <div className="h-2 w-2 bg-blue-500 rounded-full animate-pulse"></div>
                             <span className="text-xs text-blue-600 dark:text-blue-400 font-medium">
@@ -720,20 +1132,31 @@ Generated on: ${new Date().toISOString()}
                         </div>
                       )}
                     <CodeEditor
-                      code={streamingFileContent || selectedFile.content}
+                      code={
+                        drafts[selectedFile.path] ??
+                        (streamingFileContent || selectedFile.content)
+                      }
                       language={selectedFile.language}
                       filename={selectedFile.name}
-                      height={727}
-                      readonly={true} // Make it readonly
+                      path={selectedFile.path}
+                      height={687}
+                      readonly={!editable || isStreaming}
+                      onChange={(value) =>
+                        handleEditorChange(selectedFile, value)
+                      }
+                      onSave={() => handleSaveFile(selectedFile.path)}
                       isStreaming={
-                        isStreaming && !isBoilerplateFile(selectedFile.path)
+                        isStreaming &&
+                        (streamingFile
+                          ? isStreamingFile(selectedFile)
+                          : !isBoilerplateFile(selectedFile.path))
                       }
                       streamingSpeed={10} // Characters per interval
                     />
                   </div>
                 ) : (
                   <Card
-                    className={`h-[calc(100vh-${600 + (terminalOutput ? 200 : 0)}px)] flex items-center justify-center`}
+                    className={`h-[calc(100vh-${600 + (hasTerminal ? 200 : 0)}px)] flex items-center justify-center`}
                   >
                     <CardContent className="text-center">
                       <FolderTree className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
@@ -0,0 +1,155 @@
+"use client";
+
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FilePlus, FileMinus, FileDiff } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { FileChange, FileChangeType } from "@/lib/file-diff";
+
+interface ChangedFilesSummaryProps {
+  changes: FileChange[];
+  selectedPath?: string | null;
+  onSelect?: (path: string) => void;
+  turn: number; // 1-based index of the AI response being compared
+  turnCount: number;
+  onTurnChange?: (turn: number) => void;
+  className?: string;
+}
+
+const CHANGE_STYLES: Record<
+  FileChangeType,
+  { icon: typeof FilePlus; className: string; label: string }
+> = {
+  added: {
+    icon: FilePlus,
+    className: "text-green-600 dark:text-green-400",
+    label: "Added",
+  },
+  modified: {
+    icon: FileDiff,
+    className: "text-amber-600 dark:text-amber-400",
+    label: "Modified",
+  },
+  deleted: {
+    icon: FileMinus,
+    className: "text-red-600 dark:text-red-400",
+    label: "Deleted",
+  },
+};
+
+export function ChangedFilesSummary({
+  changes,
+  selectedPath,
+  onSelect,
+  turn,
+  turnCount,
+  onTurnChange,
+  className,
+}: ChangedFilesSummaryProps) {
+  const totals = changes.reduce(
+    (acc, change) => ({
+      additions: acc.additions + change.additions,
+      deletions: acc.deletions + change.deletions,
+    }),
+    { additions: 0, deletions: 0 }
+  );
+
+  return (
+    <Card className={cn("overflow-hidden flex flex-col", className)}>
+      <CardHeader className="flex-shrink-0 pb-3 space-y-2">
+        <CardTitle className="text-base">Changed Files</CardTitle>
+        {turnCount > 1 && onTurnChange ? (
+          <Select
+            value={String(turn)}
+            onValueChange={(value) => onTurnChange(Number(value))}
+          >
+            <SelectTrigger className="w-full h-7 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Array.from({ length: turnCount }, (_, i) => i + 1).map((n) => (
+                <SelectItem key={n} value={String(n)}>
+                  <span className="text-xs">
+                    Response {n}
+                    {n === turnCount ? " (latest)" : ""}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <p className="text-xs text-muted-foreground">Response {turn}</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          {changes.length} {changes.length === 1 ? "file" : "files"} changed
+          <span className="ml-2 text-green-600 dark:text-green-400">
+            +{totals.additions}
+          </span>
+          <span className="ml-1 text-red-600 dark:text-red-400">
+            -{totals.deletions}
+          </span>
+        </p>
+      </CardHeader>
+      <CardContent className="p-0 flex-1 overflow-hidden">
+        <ScrollArea className="h-full">
+          <div className="p-2 space-y-0.5">
+            {changes.length === 0 ? (
+              <p className="px-2 py-4 text-xs text-muted-foreground text-center">
+                This response did not change any files
+              </p>
+            ) : (
+              changes.map((change) => {
+                const style = CHANGE_STYLES[change.type];
+                const Icon = style.icon;
+                return (
+                  <button
+                    key={change.path}
+                    type="button"
+                    onClick={() => onSelect?.(change.path)}
+                    title={`${style.label}: ${change.path}`}
+                    className={cn(
+                      "w-full flex items-center gap-2 rounded-md px-2 py-1 text-left text-xs hover:bg-muted",
+                      selectedPath === change.path && "bg-muted"
+                    )}
+                  >
+                    <Icon
+                      className={cn("h-3.5 w-3.5 flex-shrink-0", style.className)}
+                    />
+                    <span
+                      className={cn(
+                        "flex-1 truncate",
+                        change.type === "deleted" && "line-through"
+                      )}
+                    >
+                      {change.path}
+                    </span>
+                    <span className="flex-shrink-0 tabular-nums">
+                      {change.additions > 0 && (
+                        <span className="text-green-600 dark:text-green-400">
+                          +{change.additions}
+                        </span>
+                      )}
+                      {change.deletions > 0 && (
+                        <span className="ml-1 text-red-600 dark:text-red-400">
+                          -{change.deletions}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                );
+              })
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
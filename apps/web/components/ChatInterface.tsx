@@ -4,6 +4,7 @@ import React, { useRef, useEffect, useMemo } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Select,
@@ -12,7 +13,16 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { User, Bot, Clock, Send } from "lucide-react";
+import {
+  User,
+  Bot,
+  Clock,
+  Send,
+  RotateCcw,
+  Square,
+  AlertTriangle,
+} from "lucide-react";
+import type { ValidationReport } from "@repo/artifacts";
 import { MarkdownRenderer } from "@/components/ui/markdown-renderer";
 import { AIResponseParser } from "@/lib/xml-parser";
 import { InlineLoader } from "@/components/ui/loading-spinner";
@@ -21,6 +31,8 @@ interface Prompt {
   id: string;
   content: string;
   type: "USER" | "SYSTEM";
+  interrupted?: boolean;
+  validation?: ValidationReport | null; // Problems the server found in the response
   createdAt: string;
 }
 
@@ -30,6 +42,8 @@ interface ConversationMessage {
   type: "USER" | "ASSISTANT";
   timestamp: string;
   isStreaming?: boolean;
+  interrupted?: boolean;
+  validation?: ValidationReport | null;
 }
 
 interface ChatInterfaceProps {
@@ -44,6 +58,10 @@ interface ChatInterfaceProps {
   onPromptChange: (value: string) => void;
   onModelChange: (value: string) => void;
   onSubmit: () => void;
+  onStop?: () => void;
+  restorablePromptIds?: string[];
+  restoringPromptId?: string | null;
+  onRestore?: (promptId: string) => void;
 }
 
 export function ChatInterface({
@@ -58,6 +76,10 @@ export function ChatInterface({
   onPromptChange,
   onModelChange,
   onSubmit,
+  onStop,
+  restorablePromptIds = [],
+  restoringPromptId = null,
+  onRestore,
 }: ChatInterfaceProps) {
   const parser = useMemo(() => new AIResponseParser(), []);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -86,6 +108,8 @@ export function ChatInterface({
       content: content,
       type: prompt.type === "USER" ? "USER" : "ASSISTANT",
       timestamp: prompt.createdAt,
+      interrupted: prompt.interrupted,
+      validation: prompt.validation,
     });
   });
 
@@ -150,6 +174,12 @@ export function ChatInterface({
     return date.toLocaleDateString();
   };
 
+  const validationLabel = (report: ValidationReport): string => {
+    const open = report.issues.filter((issue) => !issue.repaired).length;
+    if (open === 0) return "Repaired";
+    return `${open} ${open === 1 ? "issue" : "issues"}`;
+  };
+
   const handleSubmit = () => {
     if (!newPrompt.trim() || isGenerating) return;
     onSubmit();
@@ -237,6 +267,45 @@ export function ChatInterface({
                         <Clock className="h-2 w-2" />
                         {formatTimestamp(message.timestamp)}
                       </div>
+                      {message.interrupted && (
+                        <Badge
+                          variant="outline"
+                          className="h-4 px-1.5 text-[10px] text-amber-600 dark:text-amber-400"
+                        >
+                          Interrupted
+                        </Badge>
+                      )}
+                      {!!message.validation?.issues.length && (
+                        <Badge
+                          variant="outline"
+                          className={`h-4 px-1.5 text-[10px] ${
+                            message.validation.valid
+                              ? "text-amber-600 dark:text-amber-400"
+                              : "text-destructive"
+                          }`}
+                        >
+                          {validationLabel(message.validation)}
+                        </Badge>
+                      )}
+                      {onRestore &&
+                        message.type === "ASSISTANT" &&
+                        restorablePromptIds.includes(message.id) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onRestore(message.id)}
+                            disabled={isGenerating || !!restoringPromptId}
+                            className="h-5 px-1.5 text-xs text-muted-foreground"
+                            title="Restore project files to this version"
+                          >
+                            {restoringPromptId === message.id ? (
+                              <InlineLoader size="sm" />
+                            ) : (
+                              <RotateCcw className="h-2.5 w-2.5" />
+                            )}
+                            Restore
+                          </Button>
+                        )}
                     </div>
 
                     {/* Message Bubble */}
@@ -267,6 +336,27 @@ export function ChatInterface({
                         </div>
                       )}
                     </div>
+
+                    {/* Validation report of the saved response */}
+                    {!!message.validation?.issues.length && (
+                      <ul className="space-y-0.5 text-[10px] text-muted-foreground">
+                        {message.validation.issues.map((issue, index) => (
+                          <li key={index} className="flex items-start gap-1">
+                            <AlertTriangle
+                              className={`h-2.5 w-2.5 mt-0.5 flex-shrink-0 ${
+                                issue.severity === "error" && !issue.repaired
+                                  ? "text-destructive"
+                                  : "text-amber-500"
+                              }`}
+                            />
+                            <span>
+                              {issue.message}
+                              {issue.repaired && " (repaired)"}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                   </div>
                 </div>
               ))
@@ -314,18 +404,30 @@ export function ChatInterface({
               disabled={isGenerating}
             />
           </div>
-          <Button
-            onClick={handleSubmit}
-            disabled={!newPrompt.trim() || isGenerating}
-            className="min-h-[40px] px-3"
-            size="sm"
-          >
-            {isGenerating ? (
-              <InlineLoader size="sm" />
-            ) : (
-              <Send className="h-3 w-3" />
-            )}
-          </Button>
+          {isGenerating && onStop ? (
+            <Button
+              onClick={onStop}
+              variant="destructive"
+              className="min-h-[40px] px-3"
+              size="sm"
+              title="Stop generating"
+            >
+              <Square className="h-3 w-3" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSubmit}
+              disabled={!newPrompt.trim() || isGenerating}
+              className="min-h-[40px] px-3"
+              size="sm"
+            >
+              {isGenerating ? (
+                <InlineLoader size="sm" />
+              ) : (
+                <Send className="h-3 w-3" />
+              )}
+            </Button>
+          )}
         </div>
       </div>
     </Card>
@@ -1,7 +1,7 @@
 "use client";
 
 import React, { useRef } from "react";
-import Editor, { Monaco } from "@monaco-editor/react";
+import Editor, { DiffEditor, Monaco } from "@monaco-editor/react";
 import type { editor } from "monaco-editor";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -10,16 +10,75 @@ import { Copy, Download } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useTheme } from "next-themes";
 
+/**
+ * Register the light and dark editor themes shared by the code and diff editors
+ */
+function defineEditorThemes(monaco: Monaco) {
+  monaco.editor.defineTheme("solana-dark", {
+    base: "vs-dark",
+    inherit: true,
+    rules: [
+      { token: "comment", foreground: "6A9955" },
+      { token: "keyword", foreground: "C586C0" },
+      { token: "string", foreground: "CE9178" },
+      { token: "number", foreground: "B5CEA8" },
+      { token: "type", foreground: "4EC9B0" },
+      { token: "function", foreground: "DCDCAA" },
+    ],
+    colors: {
+      "editor.background": "#0d1117",
+      "editor.foreground": "#c9d1d9",
+      "editorLineNumber.foreground": "#6e7681",
+      "editor.selectionBackground": "#264f78",
+      "editor.inactiveSelectionBackground": "#3a3d41",
+    },
+  });
+
+  monaco.editor.defineTheme("solana-light", {
+    base: "vs",
+    inherit: true,
+    rules: [
+      { token: "comment", foreground: "008000" },
+      { token: "keyword", foreground: "0000FF" },
+      { token: "string", foreground: "A31515" },
+      { token: "number", foreground: "098658" },
+      { token: "type", foreground: "267F99" },
+      { token: "function", foreground: "795E26" },
+    ],
+    colors: {
+      "editor.background": "#ffffff",
+      "editor.foreground": "#24292e",
+      "editorLineNumber.foreground": "#959da5",
+      "editor.selectionBackground": "#c8c8fa",
+      "editor.inactiveSelectionBackground": "#e1e4e8",
+    },
+  });
+}
+
+const resolveEditorTheme = (
+  theme: string | undefined,
+  systemTheme: string | undefined
+) => {
+  // Handle system theme
+  if (theme === "system") {
+    return systemTheme === "dark" ? "solana-dark" : "solana-light";
+  }
+  // Handle explicit theme
+  return theme === "dark" ? "solana-dark" : "solana-light";
+};
+
 interface CodeEditorProps {
   code: string;
   language: string;
   filename?: string;
+  path?: string; // Monaco keeps one model per path: its own undo history, cursor and scroll
   readonly?: boolean;
   height?: string | number;
   className?: string;
   showHeader?: boolean;
   showActions?: boolean;
   onChange?: (value: string | undefined) => void;
+  onSave?: () => void;
   isStreaming?: boolean;
   streamingSpeed?: number;
 }
@@ -28,17 +87,22 @@ export function CodeEditor({
   code,
   language,
   filename,
+  path,
   readonly = true,
   height = 400,
   className,
   showHeader = true,
   showActions = true,
   onChange,
+  onSave,
   isStreaming = false,
   streamingSpeed = 5,
 }: CodeEditorProps) {
   const { theme, systemTheme } = useTheme();
   const editorRef = useRef<editor.IStandaloneCodeEditor | null>(null);
+  // The Ctrl+S command is registered once on mount, so it reads the latest handler from here
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
   const [displayedCode, setDisplayedCode] = React.useState("");
   const [isStreamingActive, setIsStreamingActive] = React.useState(false);
   const streamingIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -109,45 +173,10 @@ export function CodeEditor({
   ) => {
     editorRef.current = editor;
 
-    // Configure Monaco editor
-    monaco.editor.defineTheme("solana-dark", {
-      base: "vs-dark",
-      inherit: true,
-      rules: [
-        { token: "comment", foreground: "6A9955" },
-        { token: "keyword", foreground: "C586C0" },
-        { token: "string", foreground: "CE9178" },
-        { token: "number", foreground: "B5CEA8" },
-        { token: "type", foreground: "4EC9B0" },
-        { token: "function", foreground: "DCDCAA" },
-      ],
-      colors: {
-        "editor.background": "#0d1117",
-        "editor.foreground": "#c9d1d9",
-        "editorLineNumber.foreground": "#6e7681",
-        "editor.selectionBackground": "#264f78",
-        "editor.inactiveSelectionBackground": "#3a3d41",
-      },
-    });
+    defineEditorThemes(monaco);
 
-    monaco.editor.defineTheme("solana-light", {
-      base: "vs",
-      inherit: true,
-      rules: [
-        { token: "comment", foreground: "008000" },
-        { token: "keyword", foreground: "0000FF" },
-        { token: "string", foreground: "A31515" },
-        { token: "number", foreground: "098658" },
-        { token: "type", foreground: "267F99" },
-        { token: "function", foreground: "795E26" },
-      ],
-      colors: {
-        "editor.background": "#ffffff",
-        "editor.foreground": "#24292e",
-        "editorLineNumber.foreground": "#959da5",
-        "editor.selectionBackground": "#c8c8fa",
-        "editor.inactiveSelectionBackground": "#e1e4e8",
-      },
+    editor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
+      onSaveRef.current?.();
     });
   };
 
@@ -199,14 +228,7 @@ export function CodeEditor({
     return extensions[lang] || "txt";
   };
 
-  const getTheme = () => {
-    // Handle system theme
-    if (theme === "system") {
-      return systemTheme === "dark" ? "solana-dark" : "solana-light";
-    }
-    // Handle explicit theme
-    return theme === "dark" ? "solana-dark" : "solana-light";
-  };
+  const getTheme = () => resolveEditorTheme(theme, systemTheme);
 
   return (
     <Card className={cn("overflow-hidden py-2", className)}>
@@ -240,6 +262,7 @@ export function CodeEditor({
         <div className="border-t">
           <Editor
             height={height}
+            path={path}
             language={language}
             value={displayCodeWithCursor} // Use displayedCode for the editor's value
             theme={getTheme()}
@@ -314,3 +337,62 @@ export function CodeViewer({ codeBlocks, className }: CodeViewerProps) {
     </div>
   );
 }
+
+interface CodeDiffEditorProps {
+  original: string;
+  modified: string;
+  language: string;
+  filename?: string;
+  height?: string | number;
+  className?: string;
+  sideBySide?: boolean;
+}
+
+export function CodeDiffEditor({
+  original,
+  modified,
+  language,
+  filename,
+  height = 400,
+  className,
+  sideBySide = true,
+}: CodeDiffEditorProps) {
+  const { theme, systemTheme } = useTheme();
+
+  return (
+    <Card className={cn("overflow-hidden py-2", className)}>
+      <CardHeader>
+        <div className="flex items-center gap-3">
+          <CardTitle className="text-lg font-semibold">
+            {filename || `Diff (${language})`}
+          </CardTitle>
+          <Badge variant="secondary" className="text-xs">
+            {language}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="p-0">
+        <div className="border-t">
+          <DiffEditor
+            height={height}
+            language={language}
+            original={original}
+            modified={modified}
+            theme={resolveEditorTheme(theme, systemTheme)}
+            beforeMount={defineEditorThemes}
+            options={{
+              readOnly: true,
+              originalEditable: false,
+              renderSideBySide: sideBySide,
+              minimap: { enabled: false },
+              fontSize: 14,
+              scrollBeyondLastLine: false,
+              automaticLayout: true,
+              wordWrap: "on",
+            }}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
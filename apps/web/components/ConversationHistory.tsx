@@ -4,8 +4,9 @@ import React from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
 import { MarkdownRenderer } from "@/components/ui/markdown-renderer";
-import { User, Bot, Clock } from "lucide-react";
+import { User, Bot, Clock, RotateCcw } from "lucide-react";
 import { AIResponseParser } from "@/lib/xml-parser";
 
 interface Prompt {
@@ -28,6 +29,9 @@ interface ConversationHistoryProps {
   currentUserQuery?: string;
   currentAIResponse?: string;
   isGenerating?: boolean;
+  restorablePromptIds?: string[];
+  restoringPromptId?: string | null;
+  onRestore?: (promptId: string) => void;
 }
 
 export function ConversationHistory({
@@ -35,6 +39,9 @@ export function ConversationHistory({
   currentUserQuery,
   currentAIResponse,
   isGenerating = false,
+  restorablePromptIds = [],
+  restoringPromptId = null,
+  onRestore,
 }: ConversationHistoryProps) {
   const parser = new AIResponseParser();
 
@@ -165,6 +172,23 @@ export function ConversationHistory({
                         <Clock className="h-3 w-3" />
                         {formatTimestamp(message.timestamp)}
                       </div>
+                      {onRestore &&
+                        message.type === "ASSISTANT" &&
+                        restorablePromptIds.includes(message.id) && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onRestore(message.id)}
+                            disabled={isGenerating || !!restoringPromptId}
+                            className="h-6 px-2 text-xs text-muted-foreground"
+                            title="Restore project files to this version"
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                            {restoringPromptId === message.id
+                              ? "Restoring..."
+                              : "Restore to this version"}
+                          </Button>
+                        )}
                       {message.isStreaming && (
                         <div className="flex items-center gap-1">
                           <div className="h-2 w-2 bg-blue-500 rounded-full animate-pulse"></div>
@@ -0,0 +1,359 @@
+"use client";
+
+import React, { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { FilePlus, FolderPlus, Pencil, Trash2 } from "lucide-react";
+import { Tree, type TreeViewElement } from "@/components/ui/file-tree";
+import type { ParsedFile } from "@/lib/xml-parser";
+import {
+  baseName,
+  joinPath,
+  parentPath,
+  validateFileName,
+  type FileOperation,
+} from "@/lib/file-operations";
+
+interface FileExplorerProps {
+  data: TreeViewElement[];
+  nodes: Map<string, ParsedFile>; // Tree item id to the file or folder it shows
+  selectedId?: string;
+  onSelect: (id: string) => void;
+  editable?: boolean; // Enables the context menu, drag and drop and keyboard actions
+  onOperation?: (operation: FileOperation) => Promise<void>;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+type NameDialog =
+  | { mode: "create"; isDirectory: boolean; parent: string }
+  | { mode: "rename"; node: ParsedFile };
+
+export function FileExplorer({
+  data,
+  nodes,
+  selectedId,
+  onSelect,
+  editable = false,
+  onOperation,
+  className,
+  style,
+}: FileExplorerProps) {
+  const [menu, setMenu] = useState<{
+    id: string | null;
+    x: number;
+    y: number;
+  } | null>(null);
+  const [dialog, setDialog] = useState<NameDialog | null>(null);
+  const [name, setName] = useState("");
+  const [dialogError, setDialogError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const canEdit = editable && !!onOperation;
+  const menuNode = menu?.id ? nodes.get(menu.id) : undefined;
+
+  // Folder new entries go into: the folder itself, the parent of a file, or the root
+  const folderFor = (node: ParsedFile | undefined): string =>
+    !node ? "" : node.isDirectory ? node.path : parentPath(node.path);
+
+  const runOperation = async (
+    operation: FileOperation,
+    onError: (message: string) => void = setError
+  ): Promise<boolean> => {
+    if (!onOperation || isBusy) return false;
+
+    setIsBusy(true);
+    setError(null);
+    try {
+      await onOperation(operation);
+      return true;
+    } catch (err) {
+      console.error("File operation failed:", err);
+      onError(err instanceof Error ? err.message : "File operation failed");
+      return false;
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const openDialog = (next: NameDialog) => {
+    setDialog(next);
+    setName(next.mode === "rename" ? next.node.name : "");
+    setDialogError(null);
+  };
+
+  const requestDelete = (node: ParsedFile) => {
+    const message = node.isDirectory
+      ? `Delete the folder ${node.path} and everything in it?`
+      : `Delete ${node.path}?`;
+    if (window.confirm(message)) {
+      runOperation({ type: "delete", path: node.path });
+    }
+  };
+
+  const handleSubmitName = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!dialog) return;
+
+    const problem = validateFileName(name);
+    if (problem) {
+      setDialogError(problem);
+      return;
+    }
+
+    const operation: FileOperation =
+      dialog.mode === "rename"
+        ? {
+            type: "rename",
+            from: dialog.node.path,
+            to: joinPath(parentPath(dialog.node.path), name),
+          }
+        : {
+            type: "create",
+            path: joinPath(dialog.parent, name),
+            isDirectory: dialog.isDirectory,
+          };
+
+    if (await runOperation(operation, setDialogError)) {
+      setDialog(null);
+    }
+  };
+
+  const handleMove = (sourceId: string, targetId: string | null) => {
+    const source = nodes.get(sourceId);
+    if (!source) return;
+
+    const to = joinPath(
+      folderFor(targetId ? nodes.get(targetId) : undefined),
+      baseName(source.path)
+    );
+    if (to !== source.path) {
+      runOperation({ type: "rename", from: source.path, to });
+    }
+  };
+
+  const handleKeyDown = (id: string | undefined, event: React.KeyboardEvent) => {
+    if (event.target !== event.currentTarget || isBusy) return;
+    const node = id ? nodes.get(id) : undefined;
+
+    if (event.key === "F2" && node) {
+      openDialog({ mode: "rename", node });
+    } else if (event.key === "Delete" && node) {
+      requestDelete(node);
+    } else if (event.key.toLowerCase() === "n" && !event.ctrlKey && !event.metaKey && !event.altKey) {
+      // N for a new file, Shift+N for a new folder
+      openDialog({
+        mode: "create",
+        isDirectory: event.shiftKey,
+        parent: folderFor(node),
+      });
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  const dialogTitle = !dialog
+    ? ""
+    : dialog.mode === "rename"
+      ? `Rename ${dialog.node.isDirectory ? "folder" : "file"}`
+      : dialog.isDirectory
+        ? "New folder"
+        : "New file";
+
+  return (
+    <Card
+      style={style}
+      className={`overflow-hidden flex flex-col ${className || ""}`}
+    >
+      <CardHeader className="flex-shrink-0 pb-3">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base">File Explorer</CardTitle>
+          {canEdit && (
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={isBusy}
+                onClick={() =>
+                  openDialog({ mode: "create", isDirectory: false, parent: "" })
+                }
+                title="New file (N)"
+              >
+                <FilePlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={isBusy}
+                onClick={() =>
+                  openDialog({ mode: "create", isDirectory: true, parent: "" })
+                }
+                title="New folder (Shift+N)"
+              >
+                <FolderPlus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+        {error && (
+          <p className="text-xs text-destructive truncate" title={error}>
+            {error}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="p-0 flex-1 overflow-hidden">
+        <ScrollArea className="h-full">
+          <div className="p-2 min-h-full">
+            <Tree
+              data={data}
+              handleSelect={onSelect}
+              initialSelectedId={selectedId}
+              expandAll={true}
+              handleContextMenu={
+                canEdit
+                  ? (id, event) => {
+                      event.preventDefault();
+                      setMenu({ id, x: event.clientX, y: event.clientY });
+                    }
+                  : undefined
+              }
+              handleMove={canEdit ? handleMove : undefined}
+              handleKeyDown={canEdit ? handleKeyDown : undefined}
+            />
+          </div>
+        </ScrollArea>
+      </CardContent>
+
+      {/* Context menu, anchored where the user right-clicked */}
+      <DropdownMenu
+        open={!!menu}
+        onOpenChange={(open) => !open && setMenu(null)}
+        modal={false}
+      >
+        <DropdownMenuTrigger asChild>
+          <span
+            className="fixed size-0"
+            style={{ left: menu?.x ?? 0, top: menu?.y ?? 0 }}
+          />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start" className="w-48">
+          {(!menuNode || menuNode.isDirectory) && (
+            <>
+              <DropdownMenuItem
+                onSelect={() =>
+                  openDialog({
+                    mode: "create",
+                    isDirectory: false,
+                    parent: folderFor(menuNode),
+                  })
+                }
+              >
+                <FilePlus className="h-4 w-4" />
+                New File
+                <DropdownMenuShortcut>N</DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onSelect={() =>
+                  openDialog({
+                    mode: "create",
+                    isDirectory: true,
+                    parent: folderFor(menuNode),
+                  })
+                }
+              >
+                <FolderPlus className="h-4 w-4" />
+                New Folder
+                <DropdownMenuShortcut>⇧N</DropdownMenuShortcut>
+              </DropdownMenuItem>
+            </>
+          )}
+          {menuNode && (
+            <>
+              {menuNode.isDirectory && <DropdownMenuSeparator />}
+              <DropdownMenuItem
+                onSelect={() => openDialog({ mode: "rename", node: menuNode })}
+              >
+                <Pencil className="h-4 w-4" />
+                Rename
+                <DropdownMenuShortcut>F2</DropdownMenuShortcut>
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                variant="destructive"
+                onSelect={() => requestDelete(menuNode)}
+              >
+                <Trash2 className="h-4 w-4" />
+                Delete
+                <DropdownMenuShortcut>Del</DropdownMenuShortcut>
+              </DropdownMenuItem>
+            </>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!dialog} onOpenChange={(open) => !open && setDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <form onSubmit={handleSubmitName} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>{dialogTitle}</DialogTitle>
+              <DialogDescription>
+                {dialog?.mode === "rename"
+                  ? dialog.node.path
+                  : `In ${dialog?.parent || "the project root"}`}
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              autoFocus
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setDialogError(null);
+              }}
+              placeholder={
+                dialog?.mode === "create" && dialog.isDirectory
+                  ? "components"
+                  : "page.tsx"
+              }
+            />
+            {dialogError && (
+              <p className="text-sm text-destructive">{dialogError}</p>
+            )}
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setDialog(null)}
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isBusy}>
+                {dialog?.mode === "rename" ? "Rename" : "Create"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
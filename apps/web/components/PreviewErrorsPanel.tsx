@@ -0,0 +1,126 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Sparkles,
+  X,
+} from "lucide-react";
+import { SOURCE_LABELS, type PreviewError } from "@/lib/preview-errors";
+
+interface PreviewErrorsPanelProps {
+  errors: PreviewError[];
+  fixDisabled?: boolean; // A response is being generated
+  onFix: (error: PreviewError) => void;
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+}
+
+export function PreviewErrorsPanel({
+  errors,
+  fixDisabled = false,
+  onFix,
+  onDismiss,
+  onClear,
+}: PreviewErrorsPanelProps) {
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  return (
+    <div className="border-t border-border/50 flex-shrink-0">
+      <div className="flex items-center justify-between px-4 py-1.5">
+        <div className="flex items-center gap-2 text-xs font-semibold">
+          <AlertTriangle className="h-3.5 w-3.5 text-red-500" />
+          Errors
+          <span className="font-normal text-muted-foreground">
+            {errors.length}
+          </span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          onClick={onClear}
+        >
+          Clear
+        </Button>
+      </div>
+      <div className="max-h-48 overflow-y-auto px-4 pb-2 space-y-1">
+        {errors.map((error) => (
+          <div key={error.id} className="rounded-md bg-red-500/5 text-xs">
+            <div className="flex items-center gap-2 px-2 py-1">
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+                disabled={!error.stack}
+                onClick={() =>
+                  setExpanded((prev) => ({
+                    ...prev,
+                    [error.id]: !prev[error.id],
+                  }))
+                }
+                title={expanded[error.id] ? "Hide details" : "Show details"}
+              >
+                {expanded[error.id] ? (
+                  <ChevronDown className="h-3 w-3" />
+                ) : (
+                  <ChevronRight className="h-3 w-3" />
+                )}
+              </button>
+              <Badge
+                variant="outline"
+                className="h-4 px-1.5 text-[10px] text-destructive flex-shrink-0"
+              >
+                {SOURCE_LABELS[error.source]}
+              </Badge>
+              <code
+                className="flex-1 min-w-0 truncate text-red-600 dark:text-red-400"
+                title={error.message}
+              >
+                {error.message}
+              </code>
+              {error.count > 1 && (
+                <span className="text-[10px] text-muted-foreground">
+                  ×{error.count}
+                </span>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-5 px-1.5 text-[10px]"
+                disabled={fixDisabled}
+                onClick={() => onFix(error)}
+                title="Send this error and the files it mentions to the AI"
+              >
+                <Sparkles className="h-3 w-3" />
+                Fix with AI
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                onClick={() => onDismiss(error.id)}
+                title="Dismiss"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+            {error.pathname && (
+              <p className="px-2 pb-1 pl-9 text-[10px] text-muted-foreground">
+                on {error.pathname}
+              </p>
+            )}
+            {expanded[error.id] && error.stack && (
+              <pre className="mx-2 mb-2 p-2 bg-black/90 text-red-300 rounded font-mono text-[10px] max-h-32 overflow-y-auto whitespace-pre-wrap break-words">
+                {error.stack}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
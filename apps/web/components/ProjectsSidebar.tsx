@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useRef, useMemo } from "react";
+import { useState, useRef, useMemo, type MouseEvent } from "react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -46,6 +46,7 @@ interface ProjectsSidebarProps {
   isLoadingProjects: boolean;
   onLoadProjects: () => void;
   topOffset?: number;
+  confirmNavigation?: () => boolean; // Return false to stay on the current page
 }
 
 export function ProjectsSidebar({
@@ -53,6 +54,7 @@ export function ProjectsSidebar({
   isLoadingProjects,
   onLoadProjects,
   topOffset = 0,
+  confirmNavigation,
 }: ProjectsSidebarProps) {
   const [isMobileOpen, setIsMobileOpen] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
@@ -60,6 +62,13 @@ export function ProjectsSidebar({
 
   const memoizedProjects = useMemo(() => projects, [projects]);
 
+  // Cancel the navigation when the current page has work the user wants to keep
+  const handleLinkClick = (e: MouseEvent<HTMLAnchorElement>) => {
+    if (confirmNavigation && !confirmNavigation()) {
+      e.preventDefault();
+    }
+  };
+
   const getStatusIcon = (status: ProjectStatus = "completed") => {
     switch (status) {
       case "creating":
@@ -179,7 +188,7 @@ export function ProjectsSidebar({
           </div>
 
           {/* New Project Button with enhanced styling */}
-          <Link href="/">
+          <Link href="/" onClick={handleLinkClick}>
             <Button
               className="w-full group relative overflow-hidden rounded-xl bg-gradient-to-r from-primary to-primary/90 hover:from-primary/90 hover:to-primary text-primary-foreground shadow-lg shadow-primary/25 transition-all duration-300 hover:shadow-xl hover:shadow-primary/30 hover:-translate-y-0.5"
               size="sm"
@@ -222,6 +231,7 @@ export function ProjectsSidebar({
                     key={project.id}
                     href={`/p/${project.id}`}
                     className="group relative block"
+                    onClick={handleLinkClick}
                   >
                     <div
                       className="
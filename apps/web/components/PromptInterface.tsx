@@ -21,6 +21,12 @@ import Image from "next/image";
 import { ProjectsSidebar } from "./ProjectsSidebar";
 import { AIResponseRenderer } from "./AIResponseRenderer";
 import { API_BASE_URL } from "../lib/api";
+import { useModels } from "../lib/use-models";
+import {
+  ChatStreamAccumulator,
+  readChatEventStream,
+  type StreamingFile,
+} from "../lib/chat-stream";
 
 interface Project {
   id: string;
@@ -36,21 +42,18 @@ interface ProjectWithStatus extends Project {
   status?: ProjectStatus;
 }
 
-const AVAILABLE_MODELS = [
-  { value: "claude-3-7-sonnet-20250219", label: "Claude 3.7 Sonnet" },
-  { value: "claude-sonnet-4-20250514", label: "Claude Sonnet 4" },
-] as const;
-
 export function PromptInterface(): JSX.Element {
   const { getAccessToken } = usePrivy();
   const router = useRouter();
   const [prompt, setPrompt] = useState<string>("");
-  const [selectedModel, setSelectedModel] = useState<string>(
-    "claude-3-7-sonnet-20250219"
-  );
+  const { models, defaultModel } = useModels();
+  const [selectedModel, setSelectedModel] = useState<string>("");
   const [projects, setProjects] = useState<ProjectWithStatus[]>([]);
   const [isGenerating, setIsGenerating] = useState<boolean>(false);
   const [streamingResponse, setStreamingResponse] = useState<string>("");
+  const [streamingFile, setStreamingFile] = useState<StreamingFile | null>(
+    null
+  );
   const [error, setError] = useState<string>("");
   const [isLoadingProjects, setIsLoadingProjects] = useState<boolean>(false);
 
@@ -92,6 +95,13 @@ export function PromptInterface(): JSX.Element {
     loadProjects();
   }, [loadProjects]);
 
+  // Pick the server default once the catalogue arrives
+  useEffect(() => {
+    if (defaultModel) {
+      setSelectedModel((current) => current || defaultModel);
+    }
+  }, [defaultModel]);
+
   const handleSubmit = async (): Promise<void> => {
     if (!prompt.trim() || isGenerating) return;
 
@@ -163,11 +173,12 @@ export function PromptInterface(): JSX.Element {
         headers: {
           Authorization: token,
           "Content-Type": "application/json",
+          Accept: "text/event-stream",
         },
         body: JSON.stringify({
           prompt,
           projectId,
-          model: selectedModel,
+          model: selectedModel || undefined, // Backend falls back to its default
         }),
       });
 
@@ -178,24 +189,21 @@ export function PromptInterface(): JSX.Element {
         throw new Error(`AI generation failed: ${errorMessage}`);
       }
 
-      const reader = chatResponse.body?.getReader();
-      const decoder = new TextDecoder();
-
-      if (!reader) {
-        throw new Error("Response stream unavailable");
-      }
-
       setStreamingResponse("");
 
+      const accumulator = new ChatStreamAccumulator();
       try {
-        while (true) {
-          const { done, value } = await reader.read();
-          if (done) break;
-          const chunk = decoder.decode(value, { stream: true });
-          setStreamingResponse((prev) => prev + chunk);
-        }
+        await readChatEventStream(chatResponse, (event) => {
+          accumulator.apply(event);
+          setStreamingResponse(accumulator.raw);
+          setStreamingFile(accumulator.activeFile);
+        });
       } finally {
-        reader.releaseLock();
+        setStreamingFile(null);
+      }
+
+      if (accumulator.error) {
+        throw new Error(`AI generation failed: ${accumulator.error}`);
       }
 
       setProjects((prev) =>
@@ -213,7 +221,7 @@ export function PromptInterface(): JSX.Element {
       setTimeout(() => {
         // Keep loading state active during navigation
         router.push(
-          `/p/${projectId}?initialPrompt=${encodeURIComponent(prompt)}&model=${selectedModel}`
+          `/p/${projectId}?initialPrompt=${encodeURIComponent(prompt)}&model=${encodeURIComponent(selectedModel)}`
         );
       }, 500); // Reduced delay since loading continues on project page
 
@@ -304,19 +312,18 @@ export function PromptInterface(): JSX.Element {
                         <div className="flex items-center gap-3">
                           <span className="font-medium">
                             {
-                              AVAILABLE_MODELS.find(
-                                (m) => m.value === selectedModel
-                              )?.label
+                              models.find((m) => m.id === selectedModel)
+                                ?.label
                             }
                           </span>
                         </div>
                       </SelectValue>
                     </SelectTrigger>
                     <SelectContent>
-                      {AVAILABLE_MODELS.map((model) => (
+                      {models.map((model) => (
                         <SelectItem
-                          key={model.value}
-                          value={model.value}
+                          key={model.id}
+                          value={model.id}
                           className="py-4"
                         >
                           <div className="flex flex-col gap-2">
@@ -399,6 +406,7 @@ export function PromptInterface(): JSX.Element {
                         response={streamingResponse}
                         useBoilerplate={true} // Always use boilerplate for new projects
                         isStreaming={isGenerating}
+                        streamingFile={streamingFile}
                         hasExistingProject={false} // Always new projects in PromptInterface
                       />
                     ) : (
@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  CheckCircle,
+  AlertTriangle,
+  ChevronDown,
+  ChevronRight,
+  Play,
+  RotateCcw,
+  SkipForward,
+  Terminal,
+} from "lucide-react";
+import { InlineLoader } from "@/components/ui/loading-spinner";
+import type { ShellStep } from "@/lib/shell-actions";
+
+interface ShellActionsPanelProps {
+  steps: ShellStep[];
+  isRunning: boolean; // A step is being run, others have to wait
+  disabled?: boolean; // The WebContainer is not ready
+  onRunAll: () => void;
+  onRun: (id: string) => void;
+  onSkip: (id: string) => void;
+}
+
+export function ShellActionsPanel({
+  steps,
+  isRunning,
+  disabled = false,
+  onRunAll,
+  onRun,
+  onSkip,
+}: ShellActionsPanelProps) {
+  // Output of running and failed steps is shown unless collapsed
+  const [toggled, setToggled] = useState<Record<string, boolean>>({});
+
+  const isExpanded = (step: ShellStep) =>
+    toggled[step.id] ?? (step.status === "running" || step.status === "failed");
+
+  const getStepIcon = (status: ShellStep["status"]) => {
+    switch (status) {
+      case "running":
+        return <InlineLoader size="sm" className="text-blue-500" />;
+      case "success":
+        return <CheckCircle className="h-3.5 w-3.5 text-green-500" />;
+      case "failed":
+        return <AlertTriangle className="h-3.5 w-3.5 text-red-500" />;
+      case "skipped":
+        return <SkipForward className="h-3.5 w-3.5 text-muted-foreground" />;
+      default:
+        return (
+          <div className="h-3.5 w-3.5 rounded-full border-2 border-muted-foreground" />
+        );
+    }
+  };
+
+  const hasPending = steps.some((step) => step.status === "pending");
+
+  return (
+    <div className="border-t border-border/50 flex-shrink-0">
+      <div className="flex items-center justify-between px-4 py-1.5">
+        <div className="flex items-center gap-2 text-xs font-semibold">
+          <Terminal className="h-3.5 w-3.5" />
+          Shell actions
+          <span className="font-normal text-muted-foreground">
+            {steps.filter((step) => step.status !== "pending").length}/
+            {steps.length}
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 px-2 text-xs"
+          disabled={disabled || isRunning || !hasPending}
+          onClick={onRunAll}
+        >
+          <Play className="h-3 w-3" />
+          Run pending
+        </Button>
+      </div>
+      <div className="max-h-48 overflow-y-auto px-4 pb-2 space-y-1">
+        {steps.map((step) => (
+          <div key={step.id} className="rounded-md bg-muted/30 text-xs">
+            <div className="flex items-center gap-2 px-2 py-1">
+              <button
+                type="button"
+                className="text-muted-foreground hover:text-foreground"
+                onClick={() =>
+                  setToggled((prev) => ({
+                    ...prev,
+                    [step.id]: !isExpanded(step),
+                  }))
+                }
+                title={isExpanded(step) ? "Hide output" : "Show output"}
+              >
+                {isExpanded(step) ? (
+                  <ChevronDown className="h-3 w-3" />
+                ) : (
+                  <ChevronRight className="h-3 w-3" />
+                )}
+              </button>
+              {getStepIcon(step.status)}
+              <code className="flex-1 min-w-0 truncate" title={step.command}>
+                {step.command}
+              </code>
+              {step.exitCode !== undefined && (
+                <Badge
+                  variant="outline"
+                  className={`h-4 px-1.5 text-[10px] ${
+                    step.exitCode === 0
+                      ? "text-green-600 dark:text-green-400"
+                      : "text-destructive"
+                  }`}
+                >
+                  exit {step.exitCode}
+                </Badge>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                disabled={disabled || isRunning || step.status === "running"}
+                onClick={() => onRun(step.id)}
+                title={step.status === "pending" ? "Run" : "Run again"}
+              >
+                {step.status === "pending" ? (
+                  <Play className="h-3 w-3" />
+                ) : (
+                  <RotateCcw className="h-3 w-3" />
+                )}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-5 w-5 p-0"
+                disabled={step.status !== "pending"}
+                onClick={() => onSkip(step.id)}
+                title="Skip"
+              >
+                <SkipForward className="h-3 w-3" />
+              </Button>
+            </div>
+            {step.note && (
+              <p className="px-2 pb-1 pl-9 text-[10px] text-muted-foreground">
+                {step.note}
+              </p>
+            )}
+            {isExpanded(step) && step.output && (
+              <pre className="mx-2 mb-2 p-2 bg-black/90 text-green-400 rounded font-mono text-[10px] max-h-32 overflow-y-auto whitespace-pre-wrap break-words">
+                {step.output}
+              </pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import type { Terminal as XTerm } from "@xterm/xterm";
+import type { WebContainerProcess } from "@webcontainer/api";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { webContainerRuntime } from "@/lib/webcontainer";
+import "@xterm/xterm/css/xterm.css";
+
+interface TerminalTab {
+  id: string;
+  title: string;
+  kind: "output" | "shell"; // The runtime's process output, or an interactive jsh
+}
+
+const OUTPUT_TAB: TerminalTab = {
+  id: "output",
+  title: "Output",
+  kind: "output",
+};
+
+interface TerminalViewProps {
+  kind: TerminalTab["kind"];
+  isActive: boolean;
+}
+
+/**
+ * One xterm.js terminal. The output view replays and follows the runtime's
+ * process output; a shell view starts its own jsh and forwards every key.
+ */
+function TerminalView({ kind, isActive }: TerminalViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const fitRef = useRef<(() => void) | null>(null);
+  const termRef = useRef<XTerm | null>(null);
+
+  useEffect(() => {
+    let disposed = false;
+    let shell: WebContainerProcess | null = null;
+    const cleanups: (() => void)[] = [];
+
+    const setup = async () => {
+      // xterm needs the DOM, so it is only loaded in the browser
+      const [{ Terminal }, { FitAddon }] = await Promise.all([
+        import("@xterm/xterm"),
+        import("@xterm/addon-fit"),
+      ]);
+      if (disposed || !containerRef.current) return;
+
+      const term = new Terminal({
+        convertEol: kind === "output", // Process output ends lines with \n only
+        cursorBlink: kind === "shell",
+        disableStdin: kind === "output",
+        fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+        fontSize: 12,
+        scrollback: 5000,
+        theme: { background: "#000000" },
+      });
+      const fitAddon = new FitAddon();
+      term.loadAddon(fitAddon);
+      term.open(containerRef.current);
+      termRef.current = term;
+      cleanups.push(() => term.dispose());
+
+      // A hidden tab or minimized panel has no size to fit to, it is fitted once shown
+      fitRef.current = () => {
+        const element = containerRef.current;
+        if (!element?.clientWidth || !element.clientHeight) return;
+        fitAddon.fit();
+        shell?.resize({ cols: term.cols, rows: term.rows });
+      };
+      fitRef.current();
+      const observer = new ResizeObserver(() => fitRef.current?.());
+      observer.observe(containerRef.current);
+      cleanups.push(() => observer.disconnect());
+
+      if (kind === "output") {
+        term.write(webContainerRuntime.outputLog);
+        cleanups.push(
+          webContainerRuntime.on("output", ({ text }) => term.write(text))
+        );
+        return;
+      }
+
+      try {
+        shell = await webContainerRuntime.openShell({
+          cols: term.cols,
+          rows: term.rows,
+        });
+      } catch (error) {
+        term.write(`\x1b[31mFailed to start a shell: ${error}\x1b[0m\r\n`);
+        return;
+      }
+      if (disposed) {
+        shell.kill();
+        return;
+      }
+
+      const process = shell;
+      cleanups.push(() => process.kill());
+      process.output
+        .pipeTo(new WritableStream({ write: (data) => term.write(data) }))
+        .catch(() => {
+          // The stream closes when the shell is killed
+        });
+      const input = process.input.getWriter();
+      const onData = term.onData((data) => {
+        input.write(data).catch(() => {
+          // The shell already exited
+        });
+      });
+      cleanups.push(() => onData.dispose());
+      process.exit.then((exitCode) => {
+        if (!disposed) {
+          term.write(`\r\n[Process exited with code ${exitCode}]\r\n`);
+        }
+      });
+    };
+
+    setup().catch((error) => {
+      console.error("Failed to open terminal:", error);
+    });
+
+    return () => {
+      disposed = true;
+      fitRef.current = null;
+      termRef.current = null;
+      cleanups.reverse().forEach((cleanup) => cleanup());
+    };
+  }, [kind]);
+
+  useEffect(() => {
+    if (isActive) {
+      fitRef.current?.();
+      termRef.current?.focus();
+    }
+  }, [isActive]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`h-full w-full px-2 pt-1 ${isActive ? "" : "hidden"}`}
+    />
+  );
+}
+
+interface TerminalPanelProps {
+  actions?: React.ReactNode; // Extra buttons at the end of the tab bar
+  className?: string;
+}
+
+/**
+ * Terminal tabs: the output of everything the runtime runs, plus any number
+ * of interactive shells. Hidden tabs keep running and keep their scrollback.
+ */
+export function TerminalPanel({ actions, className }: TerminalPanelProps) {
+  const [tabs, setTabs] = useState<TerminalTab[]>([OUTPUT_TAB]);
+  const [activeId, setActiveId] = useState(OUTPUT_TAB.id);
+  const shellCountRef = useRef(0);
+
+  const openShell = () => {
+    shellCountRef.current += 1;
+    const tab: TerminalTab = {
+      id: `shell-${shellCountRef.current}`,
+      title: `Shell ${shellCountRef.current}`,
+      kind: "shell",
+    };
+    setTabs((prev) => [...prev, tab]);
+    setActiveId(tab.id);
+  };
+
+  const closeTab = (id: string) => {
+    const index = tabs.findIndex((tab) => tab.id === id);
+    const remaining = tabs.filter((tab) => tab.id !== id);
+    setTabs(remaining);
+    if (activeId === id) {
+      setActiveId((remaining[index - 1] ?? OUTPUT_TAB).id);
+    }
+  };
+
+  return (
+    <div className={`flex min-h-0 flex-col ${className ?? ""}`}>
+      <div className="flex items-center gap-1 px-2 py-1 bg-black border-b border-white/10">
+        <div className="flex flex-1 min-w-0 items-center gap-1 overflow-x-auto">
+          {tabs.map((tab) => (
+            <div
+              key={tab.id}
+              className={`group flex flex-shrink-0 items-center gap-1.5 rounded px-2 py-0.5 text-xs cursor-pointer ${
+                tab.id === activeId
+                  ? "bg-white/15 text-white"
+                  : "text-white/60 hover:text-white"
+              }`}
+              onClick={() => setActiveId(tab.id)}
+            >
+              {tab.title}
+              {tab.kind === "shell" && (
+                <button
+                  type="button"
+                  className="rounded-sm opacity-60 hover:opacity-100"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    closeTab(tab.id);
+                  }}
+                  title="Close"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              )}
+            </div>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-5 w-5 p-0 text-white/60 hover:text-white hover:bg-white/10"
+            onClick={openShell}
+            title="New shell"
+          >
+            <Plus className="h-3 w-3" />
+          </Button>
+        </div>
+        {actions}
+      </div>
+      <div className="flex-1 min-h-0 bg-black">
+        {tabs.map((tab) => (
+          <TerminalView
+            key={tab.id}
+            kind={tab.kind}
+            isActive={tab.id === activeId}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
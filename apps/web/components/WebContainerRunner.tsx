@@ -19,10 +19,11 @@ import {
   Maximize2,
   RefreshCw,
 } from "lucide-react";
-import { webContainerService } from "@/lib/webcontainer";
+import { webContainerRuntime } from "@/lib/webcontainer";
+import { useWebContainerRuntime } from "@/lib/use-webcontainer-runtime";
 import { InlineLoader } from "@/components/ui/loading-spinner";
+import { TerminalPanel } from "@/components/TerminalPanel";
 import type { ParsedFile } from "@/lib/xml-parser";
-import type { WebContainerProcess } from "@webcontainer/api";
 
 interface WebContainerRunnerProps {
   files: ParsedFile[];
@@ -45,17 +46,15 @@ export function WebContainerRunner({
   shouldUpdateFiles = false,
   onFilesUpdated,
 }: WebContainerRunnerProps) {
-  const [isContainerReady, setIsContainerReady] = useState(false);
+  const runtime = useWebContainerRuntime();
+  const [isMounted, setIsMounted] = useState(false);
+  const isContainerReady = runtime.status === "ready" && isMounted;
+  const isRunning = !!runtime.devServer;
+  const previewUrl = runtime.previewUrl;
   const [steps, setSteps] = useState<ExecutionStep[]>([]);
-  const [currentProcess, setCurrentProcess] =
-    useState<WebContainerProcess | null>(null);
-  const [previewUrl, setPreviewUrl] = useState<string>("");
-  const [isRunning, setIsRunning] = useState(false);
-  const [terminalOutput, setTerminalOutput] = useState<string>("");
   const [isInitializing, setIsInitializing] = useState(false);
   const [iframeLoading, setIframeLoading] = useState(false);
   const iframeRef = useRef<HTMLIFrameElement>(null);
-  const terminalRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
     if (isVisible && files.length > 0 && !isContainerReady && !isInitializing) {
@@ -63,23 +62,14 @@ export function WebContainerRunner({
     }
   }, [isVisible, files.length, isContainerReady, isInitializing]);
 
-  useEffect(() => {
-    if (isContainerReady) {
-      webContainerService
-        .onServerReady((port, url) => {
-          console.log(`Server ready on port ${port}: ${url}`);
-          setIframeLoading(true);
-          setPreviewUrl(url);
-        })
-        .catch(console.error);
-    }
-  }, [isContainerReady]);
-
-  useEffect(() => {
-    if (terminalRef.current && terminalOutput) {
-      terminalRef.current.scrollTop = terminalRef.current.scrollHeight;
-    }
-  }, [terminalOutput]);
+  useEffect(
+    () =>
+      webContainerRuntime.on("server-ready", ({ port, url }) => {
+        console.log(`Server ready on port ${port}: ${url}`);
+        setIframeLoading(true);
+      }),
+    []
+  );
 
   useEffect(() => {
     if (shouldUpdateFiles && isContainerReady && files.length > 0) {
@@ -118,7 +108,7 @@ export function WebContainerRunner({
         status: "running",
       });
 
-      await webContainerService.getWebContainer();
+      await webContainerRuntime.boot();
 
       updateStep("init", { status: "success" });
 
@@ -128,10 +118,10 @@ export function WebContainerRunner({
         status: "running",
       });
 
-      await webContainerService.mountFiles(files);
+      await webContainerRuntime.mount(files);
 
       updateStep("mount", { status: "success" });
-      setIsContainerReady(true);
+      setIsMounted(true);
     } catch (error) {
       console.error("Failed to initialize container:", error);
       updateStep("init", {
@@ -154,10 +144,15 @@ export function WebContainerRunner({
         status: "running",
       });
 
-      await webContainerService.updateFiles(files);
+      const { written, removed, failed } =
+        await webContainerRuntime.sync(files);
 
       updateStep(stepId, {
-        status: "success",
+        status: failed.length > 0 ? "error" : "success",
+        output:
+          failed.length > 0
+            ? `Failed to write ${failed.join(", ")}`
+            : `${written.length} written, ${removed.length} removed`,
       });
 
       if (onFilesUpdated) {
@@ -183,14 +178,14 @@ export function WebContainerRunner({
         status: "running",
       });
 
-      const result = await webContainerService.installDependencies();
+      const result = await webContainerRuntime.install();
 
       updateStep(stepId, {
         status: result.success ? "success" : "error",
-        output: result.output,
+        output: result.success
+          ? undefined
+          : `Exited with code ${result.exitCode}`,
       });
-
-      setTerminalOutput((prev) => prev + "\n" + result.output);
     } catch (error) {
       console.error("Failed to install dependencies:", error);
       updateStep(stepId, {
@@ -205,68 +200,31 @@ export function WebContainerRunner({
 
     const stepId = `dev-${Date.now()}`;
     try {
-      setIsRunning(true);
-
       addStep({
         id: stepId,
         name: "Starting development server",
         status: "running",
       });
 
-      const { process } = await webContainerService.startDevServer();
-      setCurrentProcess(process);
+      await webContainerRuntime.startDevServer();
 
       updateStep(stepId, { status: "success" });
-
-      const reader = process.output.getReader();
-      const readOutput = async () => {
-        try {
-          while (true) {
-            const { value, done } = await reader.read();
-            if (done) break;
-
-            setTerminalOutput((prev) => {
-              const newOutput = prev + value;
-              return newOutput.length > 10000
-                ? newOutput.slice(-10000)
-                : newOutput;
-            });
-          }
-        } catch (error) {
-          console.error("Error reading process output:", error);
-        } finally {
-          reader.releaseLock();
-        }
-      };
-
-      readOutput();
     } catch (error) {
       console.error("Failed to start dev server:", error);
       updateStep(stepId, {
         status: "error",
         output: error instanceof Error ? error.message : "Unknown error",
       });
-      setIsRunning(false);
     }
   };
 
-  const stopDevServer = async () => {
-    if (currentProcess) {
-      try {
-        currentProcess.kill();
-        setCurrentProcess(null);
-        setIsRunning(false);
-        setPreviewUrl("");
-
-        addStep({
-          id: `stop-${Date.now()}`,
-          name: "Stopped development server",
-          status: "success",
-        });
-      } catch (error) {
-        console.error("Failed to stop dev server:", error);
-      }
-    }
+  const stopDevServer = () => {
+    webContainerRuntime.stopAll();
+    addStep({
+      id: `stop-${Date.now()}`,
+      name: "Stopped development server",
+      status: "success",
+    });
   };
 
   const getStepIcon = (status: ExecutionStep["status"]) => {
@@ -293,7 +251,7 @@ export function WebContainerRunner({
     isContainerReady &&
     !isRunning &&
     steps.some((s) => s.id.startsWith("install") && s.status === "success");
-  const canStop = isRunning && currentProcess;
+  const canStop = isRunning;
 
   if (!isVisible) {
     return null;
@@ -420,33 +378,9 @@ export function WebContainerRunner({
                         </div>
                       ))}
 
-                      {/* Live Terminal Output */}
-                      {terminalOutput && (
-                        <div className="mt-4">
-                          <div className="bg-black/95 text-green-400 rounded-lg overflow-hidden">
-                            <div className="flex items-center gap-2 p-3 border-b border-green-800/50 bg-black/90">
-                              <Terminal className="h-3 w-3" />
-                              <span className="text-green-300 font-semibold">
-                                Live Terminal Output
-                              </span>
-                              <div className="ml-auto flex items-center gap-1">
-                                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-                                <span className="text-xs text-green-400">
-                                  Live
-                                </span>
-                              </div>
-                            </div>
-                            <div
-                              ref={terminalRef}
-                              className="p-4 h-48 overflow-y-auto font-mono text-xs scrollbar-thin scrollbar-thumb-green-800 scrollbar-track-black/50"
-                            >
-                              <pre className="whitespace-pre-wrap">
-                                {terminalOutput}
-                                <span className="animate-pulse">▋</span>
-                              </pre>
-                            </div>
-                          </div>
-                        </div>
+                      {/* Live Terminal */}
+                      {runtime.status !== "idle" && (
+                        <TerminalPanel className="mt-4 h-64 rounded-lg overflow-hidden" />
                       )}
                     </div>
                   </ScrollArea>
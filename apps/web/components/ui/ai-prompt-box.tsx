@@ -533,7 +533,7 @@ export const PromptInputBox = React.forwardRef((props: PromptInputBoxProps, ref:
                     </div>
                     {selectedModel && (
                       <span className="text-xs font-medium">
-                        {selectedModel.includes('claude-3-7') ? '3.7' : selectedModel.includes('claude-sonnet-4') ? '4.0' : ''}
+                        {aiModels.find((model) => model.value === selectedModel)?.label}
                       </span>
                     )}
                     <ChevronDown className="w-3 h-3" />
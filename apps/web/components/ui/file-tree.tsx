@@ -6,19 +6,31 @@ import { cn } from "@/lib/utils"
 
 interface TreeContextProps {
   selectedId?: string
+  activeId?: string
+  dropTargetId?: string | null
   expendedItems?: string[]
   indicator?: boolean
   handleExpand?: (id: string) => void
   handleSelect?: (id: string) => void
+  handleActivate?: (id: string) => void
+  handleContextMenu?: (id: string | null, event: React.MouseEvent) => void
+  handleDragOver?: (id: string | null, event: React.DragEvent) => void
+  handleDrop?: (id: string | null, event: React.DragEvent) => void
+  draggable?: boolean
   dir?: "rtl" | "ltr"
 }
 
+// Data transfer type of a tree item being dragged
+const TREE_ITEM_MIME = "application/x-tree-item"
+
 const TreeContext = createContext<TreeContextProps | null>(null)
 
 interface TreeViewElement {
   id: string
   name: string
   isSelectable?: boolean
+  badge?: string // Short label after the name of a file
+  badgeTitle?: string
   children?: TreeViewElement[]
 }
 
@@ -34,6 +46,9 @@ interface TreeProps {
   defaultLeafIcon?: React.ReactNode
   className?: string
   dir?: "rtl" | "ltr"
+  handleContextMenu?: (id: string | null, event: React.MouseEvent) => void // id is null for the empty area
+  handleMove?: (sourceId: string, targetId: string | null) => void // Drop onto a folder, or the root when null
+  handleKeyDown?: (id: string | undefined, event: React.KeyboardEvent) => void // id of the last clicked item
 }
 
 const Tree = forwardRef<HTMLDivElement, TreeProps>(
@@ -47,11 +62,17 @@ const Tree = forwardRef<HTMLDivElement, TreeProps>(
       handleSelect,
       expandAll,
       dir = "ltr",
+      handleContextMenu,
+      handleMove,
+      handleKeyDown,
     },
     ref,
   ) => {
     const [selectedId, setSelectedId] = useState<string | undefined>(initialSelectedId)
     const [expendedItems, setExpendedItems] = useState<string[]>(initialExpendedItems || [])
+    // Last clicked file or folder, folders are never selected but keyboard actions still apply to them
+    const [activeId, setActiveId] = useState<string | undefined>(initialSelectedId)
+    const [dropTargetId, setDropTargetId] = useState<string | null | undefined>(undefined)
 
     const selectItem = useCallback(
       (id: string) => {
@@ -123,20 +144,68 @@ const Tree = forwardRef<HTMLDivElement, TreeProps>(
       }
     }, [data, expandAll])
 
+    const handleDragOver = useCallback(
+      (id: string | null, event: React.DragEvent) => {
+        if (!handleMove || !event.dataTransfer.types.includes(TREE_ITEM_MIME)) return
+        event.preventDefault()
+        event.stopPropagation()
+        event.dataTransfer.dropEffect = "move"
+        setDropTargetId(id)
+      },
+      [handleMove],
+    )
+
+    const handleDrop = useCallback(
+      (id: string | null, event: React.DragEvent) => {
+        const sourceId = event.dataTransfer.getData(TREE_ITEM_MIME)
+        setDropTargetId(undefined)
+        if (!handleMove || !sourceId) return
+        event.preventDefault()
+        event.stopPropagation()
+        if (sourceId !== id) {
+          handleMove(sourceId, id)
+        }
+      },
+      [handleMove],
+    )
+
     const direction = dir === "rtl" ? "rtl" : "ltr"
 
     return (
       <TreeContext.Provider
         value={{
           selectedId,
+          activeId,
+          dropTargetId,
           expendedItems,
           handleExpand,
           handleSelect: selectItem,
+          handleActivate: setActiveId,
+          handleContextMenu,
+          handleDragOver,
+          handleDrop,
+          draggable: !!handleMove,
           indicator,
           dir: direction,
         }}
       >
-        <div className={cn("size-full", className)}>
+        <div
+          className={cn(
+            "size-full outline-none",
+            dropTargetId === null && "rounded-md bg-muted/30",
+            className,
+          )}
+          tabIndex={handleKeyDown ? 0 : undefined}
+          onKeyDown={handleKeyDown ? (event) => handleKeyDown(activeId, event) : undefined}
+          onContextMenu={handleContextMenu ? (event) => handleContextMenu(null, event) : undefined}
+          onDragOver={(event) => handleDragOver(null, event)}
+          onDragLeave={(event) => {
+            if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+              setDropTargetId(undefined)
+            }
+          }}
+          onDrop={(event) => handleDrop(null, event)}
+        >
           <TreeItem
             data={Array.isArray(data) ? data : [data]}
             ref={ref}
@@ -177,6 +246,14 @@ const TreeItem = forwardRef<HTMLDivElement, { data: TreeViewElement[]; dir?: "rt
                   dir={dir}
                 >
                   <span>{item.name}</span>
+                  {item.badge && (
+                    <span
+                      className="ml-1.5 rounded bg-sky-500/15 px-1 text-[10px] text-sky-600 dark:text-sky-400"
+                      title={item.badgeTitle}
+                    >
+                      {item.badge}
+                    </span>
+                  )}
                 </FileComponent>
               )}
             </li>
@@ -204,8 +281,19 @@ const FolderComponent = forwardRef<
     { className, element, value, isSelectable = true, isSelect, children, dir, ...props },
     ref,
   ) => {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { selectedId, expendedItems, handleExpand, handleSelect, indicator } = useContext(TreeContext)!
+    const {
+      activeId,
+      dropTargetId,
+      expendedItems,
+      handleExpand,
+      handleSelect,
+      handleActivate,
+      handleContextMenu,
+      handleDragOver,
+      handleDrop,
+      draggable,
+      indicator,
+    } = useContext(TreeContext)!
 
     return (
       <div
@@ -217,14 +305,33 @@ const FolderComponent = forwardRef<
           className={cn(
             "flex cursor-pointer items-center gap-1 rounded-md px-2 py-1 text-sm transition-colors hover:bg-muted/50",
             isSelect && "bg-muted",
+            !isSelect && activeId === value && "bg-muted/40",
+            dropTargetId === value && "bg-primary/10 ring-1 ring-primary/40",
             !isSelectable && "cursor-not-allowed opacity-50",
           )}
           onClick={() => {
             handleExpand?.(value!)
+            handleActivate?.(value!)
             if (isSelectable) {
               handleSelect?.(value!)
             }
           }}
+          onContextMenu={
+            handleContextMenu
+              ? (event) => {
+                  event.stopPropagation()
+                  handleActivate?.(value!)
+                  handleContextMenu(value!, event)
+                }
+              : undefined
+          }
+          draggable={draggable}
+          onDragStart={(event) => {
+            event.dataTransfer.setData(TREE_ITEM_MIME, value!)
+            event.dataTransfer.effectAllowed = "move"
+          }}
+          onDragOver={(event) => handleDragOver?.(value!, event)}
+          onDrop={(event) => handleDrop?.(value!, event)}
         >
           {indicator && (
             <ChevronRight
@@ -269,8 +376,7 @@ const FileComponent = forwardRef<
     { className, value, isSelectable = true, isSelect, fileIcon, children, ...props },
     ref,
   ) => {
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    const { selectedId, handleSelect, indicator } = useContext(TreeContext)!
+    const { handleSelect, handleActivate, handleContextMenu, draggable, indicator } = useContext(TreeContext)!
 
     return (
       <div
@@ -282,10 +388,25 @@ const FileComponent = forwardRef<
           className,
         )}
         onClick={() => {
+          handleActivate?.(value!)
           if (isSelectable) {
             handleSelect?.(value!)
           }
         }}
+        onContextMenu={
+          handleContextMenu
+            ? (event) => {
+                event.stopPropagation()
+                handleActivate?.(value!)
+                handleContextMenu(value!, event)
+              }
+            : undefined
+        }
+        draggable={draggable}
+        onDragStart={(event) => {
+          event.dataTransfer.setData(TREE_ITEM_MIME, value!)
+          event.dataTransfer.effectAllowed = "move"
+        }}
         {...props}
       >
         {indicator && <div className="size-4 shrink-0" />}
@@ -1,3 +1,5 @@
+import type { ProjectState } from "./xml-parser";
+
 export const API_BASE_URL =
   process.env.NEXT_PUBLIC_API_URL || "http://localhost:3001";
 
@@ -48,3 +50,129 @@ export async function fetchBoilerplateComponents(): Promise<string> {
     return ""; // Return empty string as fallback
   }
 }
+
+
+/**
+ * Persist the resolved file tree of a project. `snapshot` is what the
+ * response of `state.promptId` produced, kept as its snapshot if it has none.
+ */
+export async function saveProjectState(
+  token: string,
+  projectId: string,
+  state: ProjectState,
+  snapshot?: Pick<ProjectState, "files" | "directories">
+): Promise<ProjectState> {
+  const response = await fetch(`${API_BASE_URL}/api/project/${projectId}/state`, {
+    method: "PUT",
+    headers: {
+      Authorization: token,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ ...state, snapshot }),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(
+      errorData.error || `Failed to save project state: ${response.statusText}`
+    );
+  }
+
+  const data = await response.json();
+  return data.state;
+}
+
+export interface ProjectSnapshotSummary {
+  id: string;
+  promptId: string;
+  fileCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProjectSnapshot extends ProjectSnapshotSummary {
+  projectId: string;
+  state: ProjectState;
+}
+
+/**
+ * List the file snapshots recorded for each AI response of a project
+ */
+export async function fetchProjectSnapshots(
+  token: string,
+  projectId: string
+): Promise<ProjectSnapshotSummary[]> {
+  const response = await fetch(
+    `${API_BASE_URL}/api/project/${projectId}/snapshots`,
+    {
+      headers: {
+        Authorization: token,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch snapshots: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+/**
+ * Fetch a single snapshot including its full file set
+ */
+export async function fetchProjectSnapshot(
+  token: string,
+  projectId: string,
+  snapshotId: string
+): Promise<ProjectSnapshot> {
+  const response = await fetch(
+    `${API_BASE_URL}/api/project/${projectId}/snapshots/${snapshotId}`,
+    {
+      headers: {
+        Authorization: token,
+        "Content-Type": "application/json",
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch snapshot: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
+
+export interface ModelInfo {
+  id: string;
+  label: string;
+  provider: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  inputCostPerToken: number;
+  outputCostPerToken: number;
+  enabled: boolean;
+}
+
+export interface ModelCatalogue {
+  models: ModelInfo[];
+  defaultModel: string;
+}
+
+/**
+ * Fetch the models the backend accepts for /api/chat
+ */
+export async function fetchModels(): Promise<ModelCatalogue> {
+  const response = await fetch(`${API_BASE_URL}/api/models`, {
+    headers: {
+      "Content-Type": "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Failed to fetch models: ${response.statusText}`);
+  }
+
+  return await response.json();
+}
@@ -0,0 +1,185 @@
+/**
+ * Token budget the server used to build the request context
+ */
+export interface ContextReport {
+  budget: number;
+  system: number;
+  history: number;
+  summary: number;
+  files: number;
+  prompt: number;
+  modifications: number;
+  total: number;
+  turns: { total: number; kept: number; summarized: number };
+  filesIncluded: number;
+  filesListed: number;
+  modifiedFiles: number;
+}
+
+/**
+ * Typed events sent by /api/chat when the request accepts text/event-stream
+ */
+export type ChatStreamEvent =
+  | { type: "text"; text: string }
+  | { type: "artifact_start"; id: string; title: string }
+  | { type: "artifact_end"; id: string }
+  | { type: "file_start"; path: string }
+  | { type: "file_delta"; path: string; content: string }
+  | { type: "file_end"; path: string; complete: boolean }
+  | { type: "shell"; command: string }
+  | { type: "action"; attributes: Record<string, string>; content: string } // delete, rename, patch, ...
+  | { type: "usage"; inputTokens: number; outputTokens: number }
+  | ({ type: "context" } & ContextReport)
+  | { type: "continuation"; attempt: number; maxAttempts: number }
+  | { type: "patch_fallback"; paths: string[] }
+  | { type: "done"; stopReason: string | null; promptId?: string }
+  | { type: "error"; error: string; stopReason: string | null };
+
+export interface StreamingFile {
+  path: string;
+  content: string;
+}
+
+const escapeAttribute = (value: string) => value.replace(/"/g, "&quot;");
+
+/**
+ * Read a text/event-stream response and hand every parsed event to `onEvent`
+ */
+export async function readChatEventStream(
+  response: Response,
+  onEvent: (event: ChatStreamEvent) => void
+): Promise<void> {
+  const reader = response.body?.getReader();
+  if (!reader) throw new Error("No response stream available");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (frame: string) => {
+    const data = frame
+      .split("\n")
+      .filter((line) => line.startsWith("data:"))
+      .map((line) => line.slice(5).replace(/^ /, ""))
+      .join("\n");
+    if (!data) return;
+
+    try {
+      onEvent(JSON.parse(data) as ChatStreamEvent);
+    } catch (err) {
+      console.error("Failed to parse chat stream event:", err);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+      let boundary;
+      while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+        dispatch(buffer.slice(0, boundary));
+        buffer = buffer.slice(boundary + 2);
+      }
+    }
+    if (buffer.trim()) dispatch(buffer);
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Folds chat stream events into the state the UI needs: the response rebuilt as
+ * forge XML (so the existing parsers keep working), the file currently being
+ * written, token usage and the final stop reason
+ */
+export class ChatStreamAccumulator {
+  raw = "";
+  activeFile: StreamingFile | null = null;
+  shellCommands: string[] = [];
+  usage: { inputTokens: number; outputTokens: number } | null = null;
+  context: ContextReport | null = null;
+  stopReason: string | null = null;
+  continuations = 0; // Extra passes the server needed because the model was cut off
+  patchFallbacks: string[] = []; // Files re-requested in full because their patch did not apply
+  promptId: string | undefined;
+  error: string | null = null;
+  done = false;
+
+  apply(event: ChatStreamEvent): void {
+    switch (event.type) {
+      case "text":
+        this.raw += event.text;
+        break;
+      case "artifact_start":
+        this.raw += `<forgeArtifact id="${escapeAttribute(event.id)}" title="${escapeAttribute(event.title)}">\n`;
+        break;
+      case "artifact_end":
+        this.raw += "</forgeArtifact>";
+        break;
+      case "file_start":
+        this.raw += `<forgeAction type="file" filePath="${escapeAttribute(event.path)}">`;
+        this.activeFile = { path: event.path, content: "" };
+        break;
+      case "file_delta":
+        this.raw += event.content;
+        this.activeFile = {
+          path: event.path,
+          content: (this.activeFile?.path === event.path ? this.activeFile.content : "") + event.content,
+        };
+        break;
+      case "file_end":
+        if (event.complete) {
+          this.raw += "</forgeAction>\n";
+        }
+        this.activeFile = null;
+        break;
+      case "shell":
+        this.raw += `<forgeAction type="shell">\n${event.command}\n</forgeAction>\n`;
+        this.shellCommands.push(event.command);
+        break;
+      case "action": {
+        const attributes = Object.entries(event.attributes)
+          .map(([name, value]) => ` ${name}="${escapeAttribute(value)}"`)
+          .join("");
+        this.raw += `<forgeAction${attributes}>${event.content}</forgeAction>\n`;
+        break;
+      }
+      case "usage":
+        this.usage = { inputTokens: event.inputTokens, outputTokens: event.outputTokens };
+        break;
+      case "context":
+        this.context = {
+          budget: event.budget,
+          system: event.system,
+          history: event.history,
+          summary: event.summary,
+          files: event.files,
+          prompt: event.prompt,
+          modifications: event.modifications,
+          total: event.total,
+          turns: event.turns,
+          filesIncluded: event.filesIncluded,
+          filesListed: event.filesListed,
+          modifiedFiles: event.modifiedFiles,
+        };
+        break;
+      case "continuation":
+        this.continuations = event.attempt;
+        break;
+      case "patch_fallback":
+        this.patchFallbacks = event.paths;
+        break;
+      case "done":
+        this.stopReason = event.stopReason;
+        this.promptId = event.promptId;
+        this.done = true;
+        break;
+      case "error":
+        this.stopReason = event.stopReason;
+        this.error = event.error;
+        this.done = true;
+        break;
+    }
+  }
+}
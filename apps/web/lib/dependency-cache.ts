@@ -0,0 +1,161 @@
+const DB_NAME = "forge-dependency-cache";
+const DB_VERSION = 2;
+// Snapshots are written once, when they were last used is kept apart so a
+// cache hit does not rewrite tens of megabytes
+const SNAPSHOT_STORE = "node_modules";
+const USAGE_STORE = "usage";
+
+// Snapshots are large, only the most recently used ones are kept
+const MAX_SNAPSHOTS = 3;
+
+// Lockfiles the dependency key covers when the project has one
+export const LOCKFILES = [
+  "package-lock.json",
+  "pnpm-lock.yaml",
+  "yarn.lock",
+  "bun.lock",
+];
+
+interface DependencySnapshot {
+  key: string;
+  snapshot: Uint8Array; // node_modules exported by the WebContainer
+}
+
+interface DependencyUsage {
+  key: string;
+  usedAt: number;
+}
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      // Earlier versions kept usedAt on the snapshots, the cache simply starts over
+      for (const name of Array.from(db.objectStoreNames)) {
+        db.deleteObjectStore(name);
+      }
+      db.createObjectStore(SNAPSHOT_STORE, { keyPath: "key" });
+      db.createObjectStore(USAGE_STORE, { keyPath: "key" }).createIndex(
+        "usedAt",
+        "usedAt"
+      );
+    };
+    dbPromise = request(req).catch((error) => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStores<T>(
+  mode: IDBTransactionMode,
+  run: (snapshots: IDBObjectStore, usage: IDBObjectStore) => Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SNAPSHOT_STORE, USAGE_STORE], mode);
+  return run(
+    transaction.objectStore(SNAPSHOT_STORE),
+    transaction.objectStore(USAGE_STORE)
+  );
+}
+
+/**
+ * Key of the installed dependencies: a hash of everything in package.json
+ * that decides what gets installed, plus the lockfile when there is one
+ */
+export async function dependencyCacheKey(
+  packageJson: string,
+  lockfile?: string
+): Promise<string> {
+  let manifest: Record<string, unknown> = {};
+  try {
+    manifest = JSON.parse(packageJson);
+  } catch {
+    // Hash the raw text, npm will report the broken file
+    manifest = { raw: packageJson };
+  }
+
+  const relevant = JSON.stringify([
+    manifest.dependencies,
+    manifest.devDependencies,
+    manifest.optionalDependencies,
+    manifest.overrides,
+    manifest.raw,
+    lockfile ?? null,
+  ]);
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(relevant)
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * The node_modules snapshot saved for a key, or the most recently used
+ * snapshot of any key when `closest` is set, to install only the difference
+ */
+export async function loadDependencySnapshot(
+  key: string,
+  { closest = false } = {}
+): Promise<{ key: string; snapshot: Uint8Array } | null> {
+  return withStores("readwrite", async (snapshots, usage) => {
+    let entry = (await request(snapshots.get(key))) as
+      | DependencySnapshot
+      | undefined;
+    if (!entry && closest) {
+      // Newest first, only the first usage record is read
+      const cursor = await request(
+        usage.index("usedAt").openCursor(null, "prev")
+      );
+      const newest = cursor?.value as DependencyUsage | undefined;
+      entry = newest
+        ? ((await request(snapshots.get(newest.key))) as
+            | DependencySnapshot
+            | undefined)
+        : undefined;
+    }
+    if (!entry) return null;
+
+    await request(usage.put({ key: entry.key, usedAt: Date.now() }));
+    return { key: entry.key, snapshot: entry.snapshot };
+  });
+}
+
+/**
+ * Save a node_modules snapshot, dropping the least recently used ones over the limit
+ */
+export async function saveDependencySnapshot(
+  key: string,
+  snapshot: Uint8Array
+): Promise<void> {
+  await withStores("readwrite", async (snapshots, usage) => {
+    // A key always stands for the same node_modules, an existing snapshot is kept
+    if ((await request(snapshots.getKey(key))) === undefined) {
+      await request(snapshots.add({ key, snapshot }));
+    }
+    await request(usage.put({ key, usedAt: Date.now() }));
+
+    // Keys newest first, the snapshots themselves are not read
+    const keys = await request(usage.index("usedAt").getAllKeys(null));
+    const stale = keys.reverse().slice(MAX_SNAPSHOTS);
+    await Promise.all(
+      stale.flatMap((staleKey) => [
+        request(snapshots.delete(staleKey)),
+        request(usage.delete(staleKey)),
+      ])
+    );
+  });
+}
@@ -0,0 +1,135 @@
+import type { ParsedFile } from "./xml-parser";
+
+export type FileChangeType = "added" | "modified" | "deleted";
+
+export interface FileChange {
+  path: string;
+  name: string;
+  language: string;
+  type: FileChangeType;
+  additions: number;
+  deletions: number;
+  previousContent: string;
+  currentContent: string;
+}
+
+// Above this many cells the exact LCS is skipped in favour of a line multiset count
+const MAX_LCS_CELLS = 4_000_000;
+
+const splitLines = (content: string): string[] =>
+  content === "" ? [] : content.replace(/\r\n/g, "\n").split("\n");
+
+/**
+ * Count added and removed lines between two versions of a file
+ */
+export function countLineChanges(
+  previous: string,
+  current: string
+): { additions: number; deletions: number } {
+  const a = splitLines(previous);
+  const b = splitLines(current);
+
+  // Trim the common prefix and suffix, most edits only touch a small region
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const oldLines = a.slice(start, endA);
+  const newLines = b.slice(start, endB);
+
+  if (oldLines.length === 0 || newLines.length === 0) {
+    return { additions: newLines.length, deletions: oldLines.length };
+  }
+
+  let common = 0;
+  if (oldLines.length * newLines.length <= MAX_LCS_CELLS) {
+    let prev = new Uint32Array(newLines.length + 1);
+    let row = new Uint32Array(newLines.length + 1);
+    for (let i = 1; i <= oldLines.length; i++) {
+      for (let j = 1; j <= newLines.length; j++) {
+        row[j] =
+          oldLines[i - 1] === newLines[j - 1]
+            ? prev[j - 1]! + 1
+            : Math.max(prev[j]!, row[j - 1]!);
+      }
+      [prev, row] = [row, prev];
+    }
+    common = prev[newLines.length]!;
+  } else {
+    const counts = new Map<string, number>();
+    oldLines.forEach((line) => counts.set(line, (counts.get(line) || 0) + 1));
+    newLines.forEach((line) => {
+      const count = counts.get(line) || 0;
+      if (count > 0) {
+        counts.set(line, count - 1);
+        common++;
+      }
+    });
+  }
+
+  return {
+    additions: newLines.length - common,
+    deletions: oldLines.length - common,
+  };
+}
+
+/**
+ * Compare two resolved file trees and list the files that were added,
+ * modified or deleted, sorted by path
+ */
+export function diffFileTrees(
+  previous: ParsedFile[],
+  current: ParsedFile[]
+): FileChange[] {
+  const previousByPath = new Map(previous.map((file) => [file.path, file]));
+  const currentByPath = new Map(current.map((file) => [file.path, file]));
+  const changes: FileChange[] = [];
+
+  currentByPath.forEach((file, path) => {
+    const before = previousByPath.get(path);
+    if (before && before.content === file.content) {
+      return;
+    }
+
+    const { additions, deletions } = countLineChanges(
+      before?.content || "",
+      file.content
+    );
+    changes.push({
+      path,
+      name: file.name,
+      language: file.language,
+      type: before ? "modified" : "added",
+      additions,
+      deletions,
+      previousContent: before?.content || "",
+      currentContent: file.content,
+    });
+  });
+
+  previousByPath.forEach((file, path) => {
+    if (currentByPath.has(path)) {
+      return;
+    }
+
+    changes.push({
+      path,
+      name: file.name,
+      language: file.language,
+      type: "deleted",
+      additions: 0,
+      deletions: splitLines(file.content).length,
+      previousContent: file.content,
+      currentContent: "",
+    });
+  });
+
+  return changes.sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,149 @@
+import { AIResponseParser, type ParsedFile } from "./xml-parser";
+
+/**
+ * A change the user makes from the file tree. Moving is a rename to another folder.
+ */
+export type FileOperation =
+  | { type: "create"; path: string; isDirectory: boolean }
+  | { type: "rename"; from: string; to: string }
+  | { type: "delete"; path: string };
+
+export interface FileTreeState {
+  files: ParsedFile[];
+  directories: ParsedFile[];
+}
+
+const isWithin = (path: string, dir: string): boolean =>
+  path === dir || path.startsWith(`${dir}/`);
+
+export const parentPath = (path: string): string =>
+  path.split("/").slice(0, -1).join("/");
+
+export const baseName = (path: string): string => path.split("/").pop() || path;
+
+export const joinPath = (dir: string, name: string): string =>
+  dir ? `${dir}/${name}` : name;
+
+/**
+ * Problem with a file or folder name typed by the user, or null when it is usable
+ */
+export function validateFileName(name: string): string | null {
+  if (!name.trim()) return "Name cannot be empty";
+  if (name !== name.trim()) return "Name cannot start or end with spaces";
+  if (/[\\/]/.test(name)) return "Name cannot contain slashes";
+  if (name === "." || name === "..") return "Name cannot be . or ..";
+  return null;
+}
+
+function createEntry(path: string, isDirectory: boolean, content = ""): ParsedFile {
+  const name = baseName(path);
+  return {
+    id: `${isDirectory ? "dir" : "file"}-${path.replace(/[^a-zA-Z0-9]/g, "-")}`,
+    name,
+    path,
+    content,
+    language: isDirectory ? "" : AIResponseParser.detectLanguage(name),
+    isDirectory: isDirectory || undefined,
+  };
+}
+
+/**
+ * Apply files that commands in the WebContainer created, changed (new
+ * content) or deleted (null), marking them as coming from the runtime.
+ * Folders go away with a deleted path they are in.
+ */
+export function applyRuntimeChanges(
+  tree: FileTreeState,
+  changes: Map<string, string | null>
+): FileTreeState {
+  const files = tree.files.flatMap((file): ParsedFile[] => {
+    const content = changes.get(file.path);
+    if (content === undefined || content === file.content) return [file];
+    return content === null ? [] : [{ ...file, content, origin: "runtime" }];
+  });
+
+  const known = new Set(tree.files.map((file) => file.path));
+  changes.forEach((content, path) => {
+    if (content !== null && !known.has(path)) {
+      files.push({ ...createEntry(path, false, content), origin: "runtime" });
+    }
+  });
+
+  const removed = [...changes].flatMap(([path, content]) =>
+    content === null ? [path] : []
+  );
+  const directories = removed.length
+    ? tree.directories.filter(
+        (dir) => !removed.some((path) => isWithin(dir.path, path))
+      )
+    : tree.directories;
+
+  return { files, directories };
+}
+
+/**
+ * Whether a file or folder exists at `path`, folders may only exist implicitly through their files
+ */
+export function pathExists(tree: FileTreeState, path: string): boolean {
+  return (
+    tree.files.some((file) => isWithin(file.path, path)) ||
+    tree.directories.some((dir) => isWithin(dir.path, path))
+  );
+}
+
+/**
+ * Apply a file tree operation to the parsed files, throwing when it would
+ * overwrite an existing entry
+ */
+export function applyFileOperation(
+  tree: FileTreeState,
+  operation: FileOperation
+): FileTreeState {
+  switch (operation.type) {
+    case "create": {
+      if (pathExists(tree, operation.path)) {
+        throw new Error(`${operation.path} already exists`);
+      }
+      const entry = createEntry(operation.path, operation.isDirectory);
+      return operation.isDirectory
+        ? { files: tree.files, directories: [...tree.directories, entry] }
+        : { files: [...tree.files, entry], directories: tree.directories };
+    }
+
+    case "rename": {
+      const { from, to } = operation;
+      if (from === to) return tree;
+      if (isWithin(to, from)) {
+        throw new Error(`Cannot move ${from} into itself`);
+      }
+      if (!pathExists(tree, from)) {
+        throw new Error(`${from} does not exist`);
+      }
+      if (pathExists(tree, to)) {
+        throw new Error(`${to} already exists`);
+      }
+
+      // A folder takes everything below it along
+      const move = (entry: ParsedFile): ParsedFile =>
+        isWithin(entry.path, from)
+          ? createEntry(
+              to + entry.path.slice(from.length),
+              !!entry.isDirectory,
+              entry.content
+            )
+          : entry;
+      return {
+        files: tree.files.map(move),
+        directories: tree.directories.map(move),
+      };
+    }
+
+    case "delete":
+      return {
+        files: tree.files.filter((file) => !isWithin(file.path, operation.path)),
+        directories: tree.directories.filter(
+          (dir) => !isWithin(dir.path, operation.path)
+        ),
+      };
+  }
+}
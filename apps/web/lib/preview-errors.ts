@@ -0,0 +1,199 @@
+import { PreviewMessageType, type PreviewMessage } from "@webcontainer/api";
+import { cleanAnsiCodes } from "./shell-actions";
+import type { ParsedFile } from "./xml-parser";
+
+export type PreviewErrorSource =
+  | "exception"
+  | "rejection"
+  | "console"
+  | "build";
+
+/**
+ * An error of the running project, from the preview page or the dev server
+ */
+export interface PreviewError {
+  id: string;
+  source: PreviewErrorSource;
+  message: string;
+  stack?: string;
+  pathname?: string; // Preview page the error happened on
+  count: number; // Times the same error was reported
+}
+
+export type PreviewErrorInput = Omit<PreviewError, "id" | "count">;
+
+export const SOURCE_LABELS: Record<PreviewErrorSource, string> = {
+  exception: "Uncaught error",
+  rejection: "Unhandled rejection",
+  console: "Console error",
+  build: "Build error",
+};
+
+// Files sent along with a fix request, and how much of each
+const MAX_FIX_FILES = 3;
+const MAX_FIX_FILE_LENGTH = 8000;
+
+const formatArg = (arg: unknown): string => {
+  if (typeof arg === "string") return arg;
+  if (arg && typeof arg === "object" && "message" in arg) {
+    return String((arg as { message: unknown }).message);
+  }
+  try {
+    return JSON.stringify(arg);
+  } catch {
+    return String(arg);
+  }
+};
+
+/**
+ * The error a preview page reported through the WebContainer's error bridge
+ */
+export function fromPreviewMessage(message: PreviewMessage): PreviewErrorInput {
+  switch (message.type) {
+    case PreviewMessageType.UncaughtException:
+      return {
+        source: "exception",
+        message: message.message,
+        stack: message.stack,
+        pathname: message.pathname,
+      };
+    case PreviewMessageType.UnhandledRejection:
+      return {
+        source: "rejection",
+        message: message.message,
+        stack: message.stack,
+        pathname: message.pathname,
+      };
+    case PreviewMessageType.ConsoleError:
+      return {
+        source: "console",
+        message: message.args.map(formatArg).join(" "),
+        stack: message.stack,
+        pathname: message.pathname,
+      };
+  }
+}
+
+// First line of a Next.js or bundler error in the dev server output
+const BUILD_ERROR_START =
+  /^(?:⨯\s|Failed to compile|Module not found|Type error:|SyntaxError:|Error:)/;
+// "./src/app/page.tsx:12:5", Next.js prints it above the error it locates
+const LOCATION_LINE = /^\S+:\d+:\d+$/;
+// Lines the dev server prints between errors, ending the one before
+const STATUS_LINE = /^(?:✓|○|▲|- |GET |POST |HEAD )/;
+const RECOVERED = /✓ (?:Compiled|Ready)|compiled successfully/i;
+const MAX_BLOCK_LINES = 20;
+
+export type BuildOutputEvent =
+  | { type: "error"; error: PreviewErrorInput }
+  | { type: "recovered" }; // The project compiled again, earlier build errors are gone
+
+/**
+ * Finds build and compile errors in the dev server output, which arrives in
+ * chunks that can end mid-line
+ */
+export class BuildErrorScanner {
+  private partial = "";
+  private block: string[] | null = null;
+
+  push(text: string): BuildOutputEvent[] {
+    const events: BuildOutputEvent[] = [];
+    const lines = (this.partial + cleanAnsiCodes(text)).split("\n");
+    this.partial = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const trimmed = line.trim();
+      const locatedBefore =
+        this.block?.length === 1 && LOCATION_LINE.test(this.block[0] ?? "");
+      if (BUILD_ERROR_START.test(trimmed) && !locatedBefore) {
+        this.flush(events);
+        this.block = [trimmed.replace(/^⨯\s+/, "")];
+      } else if (this.block) {
+        if (
+          !trimmed ||
+          STATUS_LINE.test(trimmed) ||
+          this.block.length >= MAX_BLOCK_LINES
+        ) {
+          this.flush(events);
+        } else {
+          this.block.push(line.trimEnd());
+        }
+      }
+
+      if (RECOVERED.test(trimmed)) {
+        this.flush(events);
+        events.push({ type: "recovered" });
+      }
+    }
+    return events;
+  }
+
+  private flush(events: BuildOutputEvent[]) {
+    if (!this.block) return;
+    // The error itself is the headline, its location moves to the details
+    const [first = "", second, ...others] = this.block;
+    const [message = "", ...rest] =
+      second !== undefined && LOCATION_LINE.test(first)
+        ? [second, first, ...others]
+        : this.block;
+    events.push({
+      type: "error",
+      error: {
+        source: "build",
+        message,
+        stack: rest.length > 0 ? rest.join("\n") : undefined,
+      },
+    });
+    this.block = null;
+  }
+}
+
+/**
+ * Project files the error message or stack mentions, in the order they appear
+ */
+export function implicatedFiles(
+  error: PreviewErrorInput,
+  files: ParsedFile[]
+): ParsedFile[] {
+  const text = `${error.message}\n${error.stack ?? ""}`;
+  return files
+    .map((file) => ({ file, index: text.indexOf(file.path) }))
+    .filter(({ index }) => index >= 0)
+    .sort((a, b) => a.index - b.index)
+    .map(({ file }) => file);
+}
+
+/**
+ * Chat prompt asking the AI to fix an error, with the files it points at
+ */
+export function buildFixPrompt(
+  error: PreviewErrorInput,
+  files: ParsedFile[]
+): string {
+  const sections = [
+    `The running app shows this ${SOURCE_LABELS[error.source].toLowerCase()}${
+      error.pathname ? ` on ${error.pathname}` : ""
+    }:`,
+    "```",
+    [error.message, error.stack].filter(Boolean).join("\n"),
+    "```",
+  ];
+
+  const implicated = implicatedFiles(error, files).slice(0, MAX_FIX_FILES);
+  for (const file of implicated) {
+    const content =
+      file.content.length > MAX_FIX_FILE_LENGTH
+        ? `${file.content.slice(0, MAX_FIX_FILE_LENGTH)}\n... (truncated)`
+        : file.content;
+    sections.push(
+      "",
+      `${file.path}:`,
+      `\`\`\`${file.language}`,
+      content,
+      "```"
+    );
+  }
+
+  sections.push("", "Find the cause of this error and fix it.");
+  return sections.join("\n");
+}
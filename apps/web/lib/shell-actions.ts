@@ -0,0 +1,73 @@
+export type ShellStepStatus =
+  | "pending"
+  | "running"
+  | "success"
+  | "failed"
+  | "skipped";
+
+/**
+ * One shell action of an artifact and what happened when it ran
+ */
+export interface ShellStep {
+  id: string;
+  command: string;
+  status: ShellStepStatus;
+  output: string;
+  exitCode?: number;
+  note?: string; // Why the step was skipped or only partly run
+}
+
+// Commands that start a server and keep running instead of exiting
+const DEV_SERVER_SEGMENT =
+  /^(?:npm|pnpm|yarn|bun)\s+(?:run\s+)?(?:dev|start|preview)\b|^(?:npx\s+)?(?:next\s+(?:dev|start)\b|vite(?:\s+(?:dev|preview))?(?:\s|$))/;
+
+const segments = (command: string): string[] =>
+  command
+    .split(/\s*&&\s*/)
+    .map((segment) => segment.trim())
+    .filter(Boolean);
+
+/**
+ * Whether any command of an && chain starts a dev server
+ */
+export function isDevServerCommand(command: string): boolean {
+  return segments(command).some((segment) => DEV_SERVER_SEGMENT.test(segment));
+}
+
+/**
+ * The command with the dev server parts of its && chain removed, or null
+ * when nothing else is left to run
+ */
+export function withoutDevServer(command: string): string | null {
+  const rest = segments(command).filter(
+    (segment) => !DEV_SERVER_SEGMENT.test(segment)
+  );
+  return rest.length > 0 ? rest.join(" && ") : null;
+}
+
+// Installs of the whole package.json, flags allowed but no package names
+const INSTALL_COMMAND =
+  /^(?:npm\s+(?:install|i|ci)|pnpm\s+(?:install|i)|yarn(?:\s+install)?|bun\s+(?:install|i))(?:\s+--?[\w-]+(?:=\S+)?)*$/;
+
+/**
+ * Whether the command only installs the project's dependencies, which the
+ * runtime can restore from its cache instead
+ */
+export function isInstallCommand(command: string): boolean {
+  const parts = segments(command);
+  return parts.length === 1 && INSTALL_COMMAND.test(parts[0] ?? "");
+}
+
+/**
+ * Remove the cursor movement and color escape codes terminals use
+ */
+export function cleanAnsiCodes(text: string): string {
+  return text
+    .replace(/\x1B\[[0-9;]*[JKmsu]/g, "")
+    .replace(/\x1B\[[0-9]*[ABCD]/g, "")
+    .replace(/\x1B\[2K/g, "")
+    .replace(/\x1B\[1G/g, "")
+    .replace(/\x1B\[0K/g, "")
+    .replace(/\x1B\[.*?m/g, "") // Remove all color codes
+    .replace(/\r/g, ""); // Remove carriage returns
+}
@@ -1,9 +1,13 @@
+import { parseArtifacts, type Action, type Artifact } from "@repo/artifacts";
+
 export enum StepType {
   CreateFile = "CreateFile",
   CreateFolder = "CreateFolder",
   RunScript = "RunScript",
   EditFile = "EditFile",
   InstallPackage = "InstallPackage",
+  DeleteFile = "DeleteFile",
+  RenameFile = "RenameFile",
 }
 
 export type StepStatus = "pending" | "running" | "completed" | "failed";
@@ -16,110 +20,79 @@ export interface Step {
   status: StepStatus;
   code?: string;
   path?: string;
+  newPath?: string; // Target of a RenameFile step
   command?: string;
 }
 
+/**
+ * Steps for the actions of every forgeArtifact in a response
+ */
 export function parseForgeXml(response: string): Step[] {
-  const steps: Step[] = [];
-  let stepId = 1;
-
-  console.log("Parsing forge XML from response:", response);
-
-  let artifactRegex = /<forgeArtifact\s+([^>]*)>([\s\S]*?)<\/forgeArtifact>/gi;
-  let artifactMatch = artifactRegex.exec(response);
-
-  if (!artifactMatch) {
-    artifactRegex =
-      /&lt;forgeArtifact\s+([^&gt;]*)&gt;([\s\S]*?)&lt;\/forgeArtifact&gt;/gi;
-    artifactMatch = artifactRegex.exec(response);
+  const artifacts = parseArtifacts(response);
+  if (artifacts.length === 0) {
+    return [];
   }
 
-  if (!artifactMatch) {
-    artifactRegex = /<forgeArtifact\s+([^>]*)>([\s\S]*?)$/gi;
-    artifactMatch = artifactRegex.exec(response);
-  }
+  return buildSteps(
+    artifacts[0]!,
+    artifacts.flatMap((artifact) => artifact.actions)
+  );
+}
 
-  if (!artifactMatch) {
-    artifactRegex = /&lt;forgeArtifact\s+([^&gt;]*)&gt;([\s\S]*?)$/gi;
-    artifactMatch = artifactRegex.exec(response);
-  }
+/**
+ * Turn the actions of an artifact into steps, preceded by one for the artifact itself
+ */
+export function buildSteps(
+  artifact: Pick<Artifact, "id" | "title">,
+  actions: Action[]
+): Step[] {
+  return new StepBuilder(artifact).add(actions);
+}
 
-  if (!artifactMatch) {
-    console.log("No forgeArtifact found in response");
-    return steps;
+/**
+ * Steps of an artifact whose actions finish one by one while it streams,
+ * each action is turned into steps once
+ */
+export class StepBuilder {
+  private steps: Step[];
+  private folders = new Set<string>();
+
+  constructor(artifact: Pick<Artifact, "id" | "title">) {
+    const artifactId: string = artifact.id || "unknown";
+    const title: string = artifact.title || "Untitled Project";
+
+    // Add initial artifact step
+    this.steps = [
+      {
+        id: 1,
+        title: title,
+        description: `Project: ${artifactId}`,
+        type: StepType.CreateFolder,
+        status: "pending",
+      },
+    ];
   }
 
-  const fullMatch = artifactMatch[0] || "";
-  const attributes = artifactMatch[1] || "";
-  const content = artifactMatch[2] || "";
-
-  console.log("Found forgeArtifact:", {
-    fullMatch: fullMatch.substring(0, 200) + "...",
-    attributes,
-    contentLength: content.length,
-    hasClosingTag:
-      fullMatch.includes("</forgeArtifact>") ||
-      fullMatch.includes("&lt;/forgeArtifact&gt;"),
-  });
-
-  const idMatch = attributes.match(/id=["']([^"']*)["']/i);
-  const titleMatch = attributes.match(/title=["']([^"']*)["']/i);
-
-  const artifactId: string = (idMatch && idMatch[1]) || "unknown";
-  const title: string = (titleMatch && titleMatch[1]) || "Untitled Project";
-
-  console.log("Found artifact:", { artifactId, title });
-
-  if (!content) {
-    console.log("No content found in artifact");
-    return steps;
+  get current(): Step[] {
+    return this.steps;
   }
 
-  // Add initial artifact step
-  steps.push({
-    id: stepId++,
-    title: title,
-    description: `Project: ${artifactId}`,
-    type: StepType.CreateFolder,
-    status: "pending",
-  });
-
-  const actionRegex = /<forgeAction\s+([^>]*?)>([\s\S]*?)<\/forgeAction>/gi;
-  let actionMatch;
-
-  console.log("Searching for forgeAction elements in content...");
-
-  while ((actionMatch = actionRegex.exec(content)) !== null) {
-    const attributes = actionMatch[1] || "";
-    const actionContent = actionMatch[2] || "";
-
-    console.log("Raw attributes found:", attributes);
-    console.log("Raw content found:", actionContent.substring(0, 100) + "...");
-
-    const typeMatch = attributes.match(/type=["']?([^"'\s]*)["']?/i);
-    const filePathMatch = attributes.match(/filePath=["']?([^"'\s]*)["']?/i);
-    const commandMatch = attributes.match(/command=["']?([^"'\s]*)["']?/i);
-
-    const type = typeMatch ? typeMatch[1] : "";
-    const filePath = filePathMatch ? filePathMatch[1] : "";
-    const command = commandMatch ? commandMatch[1] : "";
-
-    console.log("Found forgeAction:", {
-      type,
-      filePath,
-      command,
-      contentLength: actionContent.length,
-    });
-
-    if (type === "file" && filePath && actionContent) {
-      const directories = getDirectoriesFromPath(filePath);
-      directories.forEach((dirPath) => {
-        if (
-          !steps.some(
-            (step) =>
-              step.type === StepType.CreateFolder && step.path === dirPath
-          )
-        ) {
+  /**
+   * Append the steps of newly finished actions. Steps returned earlier are
+   * never changed, the array is only replaced when steps were added.
+   */
+  add(actions: Action[]): Step[] {
+    if (actions.length === 0) return this.steps;
+
+    const steps = [...this.steps];
+    let stepId = steps.length + 1;
+
+    for (const action of actions) {
+      if (action.type === "file") {
+        const { filePath, content } = action;
+        getDirectoriesFromPath(filePath).forEach((dirPath) => {
+          if (this.folders.has(dirPath)) return;
+          this.folders.add(dirPath);
           steps.push({
             id: stepId++,
             title: `Create directory ${getFileName(dirPath)}`,
@@ -128,31 +101,55 @@ export function parseForgeXml(response: string): Step[] {
             status: "pending",
             path: dirPath,
           });
-        }
-      });
-
-      // File creation step
-      const fileName = getFileName(filePath);
-      const cleanContent = actionContent.trim();
+        });
 
-      steps.push({
-        id: stepId++,
-        title: `Create ${fileName}`,
-        description: `Creating file: ${filePath} (${cleanContent.length} characters)`,
-        type: StepType.CreateFile,
-        status: "pending",
-        code: cleanContent,
-        path: filePath,
-      });
+        // File creation step
+        const fileName = getFileName(filePath);
 
-      console.log(`Added file step: ${filePath}`);
-    } else if (
-      (type === "shell" || type === "command") &&
-      (command || actionContent)
-    ) {
-      // Shell command step
-      const commandText = command || actionContent.trim();
-      if (commandText) {
+        steps.push({
+          id: stepId++,
+          title: `Create ${fileName}`,
+          description: `Creating file: ${filePath} (${content.length} characters)`,
+          type: StepType.CreateFile,
+          status: "pending",
+          code: content,
+          path: filePath,
+        });
+      } else if (action.type === "delete") {
+        const { filePath } = action;
+        steps.push({
+          id: stepId++,
+          title: `Delete ${getFileName(filePath)}`,
+          description: `Deleting: ${filePath}`,
+          type: StepType.DeleteFile,
+          status: "pending",
+          path: filePath,
+        });
+      } else if (action.type === "rename") {
+        const { from, to } = action;
+        steps.push({
+          id: stepId++,
+          title: `Rename ${getFileName(from)} to ${getFileName(to)}`,
+          description: `Renaming: ${from} -> ${to}`,
+          type: StepType.RenameFile,
+          status: "pending",
+          path: from,
+          newPath: to,
+        });
+      } else if (action.type === "patch") {
+        const { filePath } = action;
+        steps.push({
+          id: stepId++,
+          title: `Update ${getFileName(filePath)}`,
+          description: `Patching file: ${filePath}`,
+          type: StepType.EditFile,
+          status: "pending",
+          code: action.patch.trim(),
+          path: filePath,
+        });
+      } else {
+        // Shell command step
+        const commandText = action.command;
         steps.push({
           id: stepId++,
           title: `Run: ${commandText}`,
@@ -162,21 +159,12 @@ export function parseForgeXml(response: string): Step[] {
           code: commandText,
           command: commandText,
         });
-
-        console.log(`Added shell step: ${commandText}`);
       }
-    } else {
-      console.log("Unhandled action type or missing data:", {
-        type,
-        filePath,
-        command,
-        hasContent: !!actionContent,
-      });
     }
-  }
 
-  console.log(`Parsed ${steps.length} total steps`);
-  return steps;
+    this.steps = steps;
+    return steps;
+  }
 }
 
 function getFileName(filePath: string | undefined): string {
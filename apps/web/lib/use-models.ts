@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchModels, type ModelCatalogue } from "./api";
+
+// Shared across pages, the catalogue only changes when the backend restarts
+let cataloguePromise: Promise<ModelCatalogue> | null = null;
+
+/**
+ * Model catalogue served by GET /api/models
+ */
+export function useModels(): ModelCatalogue & { loading: boolean } {
+  const [catalogue, setCatalogue] = useState<ModelCatalogue | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!cataloguePromise) {
+      cataloguePromise = fetchModels().catch((error) => {
+        console.error("Error fetching models:", error);
+        cataloguePromise = null;
+        return { models: [], defaultModel: "" };
+      });
+    }
+
+    cataloguePromise.then((result) => {
+      if (!cancelled) setCatalogue(result);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    models: catalogue?.models ?? [],
+    defaultModel: catalogue?.defaultModel ?? "",
+    loading: catalogue === null,
+  };
+}
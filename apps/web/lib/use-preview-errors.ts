@@ -0,0 +1,73 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  BuildErrorScanner,
+  fromPreviewMessage,
+  type PreviewError,
+  type PreviewErrorInput,
+} from "./preview-errors";
+import { webContainerRuntime } from "./webcontainer";
+
+// Older errors are dropped, a broken page can log on every render
+const MAX_ERRORS = 50;
+
+/**
+ * Errors of the running project: what the preview page reports, plus build
+ * errors in the dev server output. Repeats of an error are counted, not listed.
+ */
+export function usePreviewErrors() {
+  const [errors, setErrors] = useState<PreviewError[]>([]);
+
+  useEffect(() => {
+    const scanner = new BuildErrorScanner();
+    let nextId = 0;
+
+    const add = (error: PreviewErrorInput) => {
+      setErrors((prev) => {
+        const existing = prev.find(
+          (e) => e.source === error.source && e.message === error.message
+        );
+        if (existing) {
+          return prev.map((e) =>
+            e === existing ? { ...e, ...error, count: e.count + 1 } : e
+          );
+        }
+        nextId += 1;
+        return [{ ...error, id: `error-${nextId}`, count: 1 }, ...prev].slice(
+          0,
+          MAX_ERRORS
+        );
+      });
+    };
+
+    const offMessage = webContainerRuntime.on(
+      "preview-message",
+      ({ message }) => add(fromPreviewMessage(message))
+    );
+    const offOutput = webContainerRuntime.on("output", ({ process, text }) => {
+      // Installs and other commands print errors of their own, the terminal shows those
+      if (!process?.isDevServer) return;
+      for (const event of scanner.push(text)) {
+        if (event.type === "error") {
+          add(event.error);
+        } else {
+          setErrors((prev) => prev.filter((e) => e.source !== "build"));
+        }
+      }
+    });
+
+    return () => {
+      offMessage();
+      offOutput();
+    };
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    setErrors((prev) => prev.filter((error) => error.id !== id));
+  }, []);
+
+  const clear = useCallback(() => setErrors([]), []);
+
+  return { errors, dismiss, clear };
+}
@@ -0,0 +1,195 @@
+"use client";
+
+import { useCallback, useRef, useState } from "react";
+import {
+  cleanAnsiCodes,
+  isInstallCommand,
+  withoutDevServer,
+  type ShellStep,
+} from "./shell-actions";
+import { webContainerRuntime, type RuntimeProcess } from "./webcontainer";
+
+// Older output is dropped, the terminal keeps the full log
+const MAX_STEP_OUTPUT = 20000;
+
+interface ShellActionOptions {
+  enabled: boolean; // The WebContainer is ready to run commands
+}
+
+/**
+ * Runs the shell actions of an artifact in the WebContainer, one after the
+ * other. A dev server is left running and the next command starts right away;
+ * when one is already alive the dev server part of a command is skipped.
+ */
+export function useShellActions(options: ShellActionOptions) {
+  const [steps, setSteps] = useState<ShellStep[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  // The runner is async, it reads and writes the latest steps through this ref
+  const stepsRef = useRef<ShellStep[]>([]);
+  const keyRef = useRef<string | null>(null);
+  const isRunningRef = useRef(false);
+  const processesRef = useRef(new Map<string, RuntimeProcess>());
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const setStep = (id: string, update: (step: ShellStep) => ShellStep) => {
+    stepsRef.current = stepsRef.current.map((step) =>
+      step.id === id ? update(step) : step
+    );
+    setSteps(stepsRef.current);
+  };
+
+  /**
+   * Show the commands of a response, keeping the current steps while the key stays the same
+   */
+  const load = useCallback((key: string, commands: string[]) => {
+    if (keyRef.current === key) return;
+    keyRef.current = key;
+    stepsRef.current = commands.map((command, index) => ({
+      id: `${key}-${index}`,
+      command,
+      status: "pending",
+      output: "",
+    }));
+    setSteps(stepsRef.current);
+  }, []);
+
+  // Resolves false when the step failed, later steps usually depend on it
+  const runStep = async (id: string): Promise<boolean> => {
+    const step = stepsRef.current.find((s) => s.id === id);
+    if (!optionsRef.current.enabled || !step) return false;
+
+    const command = webContainerRuntime.state.devServer
+      ? withoutDevServer(step.command)
+      : step.command;
+    if (command === null) {
+      setStep(id, (s) => ({
+        ...s,
+        status: "skipped",
+        exitCode: undefined,
+        note: "Dev server is already running",
+      }));
+      return true;
+    }
+
+    setStep(id, (s) => ({
+      ...s,
+      status: "running",
+      output: "",
+      exitCode: undefined,
+      note:
+        command === step.command
+          ? undefined
+          : `Dev server is already running, ran: ${command}`,
+    }));
+
+    const appendOutput = (text: string) => {
+      setStep(id, (s) => ({
+        ...s,
+        output: (s.output + cleanAnsiCodes(text)).slice(-MAX_STEP_OUTPUT),
+      }));
+    };
+
+    try {
+      // The runtime installs through its node_modules cache
+      if (isInstallCommand(command)) {
+        processesRef.current.delete(id);
+        const { exitCode } = await webContainerRuntime.install(appendOutput);
+        setStep(id, (s) => ({
+          ...s,
+          status: exitCode === 0 ? "success" : "failed",
+          exitCode,
+        }));
+        return exitCode === 0;
+      }
+
+      const process = await webContainerRuntime.run(command, appendOutput);
+      processesRef.current.set(id, process);
+
+      const finish = (exitCode: number) => {
+        // A re-run replaced this process, its result no longer applies
+        if (processesRef.current.get(id) !== process) return;
+        processesRef.current.delete(id);
+        setStep(id, (s) => ({
+          ...s,
+          status: exitCode === 0 ? "success" : "failed",
+          exitCode,
+        }));
+      };
+
+      if (process.isDevServer) {
+        process.process.exit.then(finish);
+        return true;
+      }
+
+      const exitCode = await process.process.exit;
+      finish(exitCode);
+      return exitCode === 0;
+    } catch (error) {
+      console.error(`Failed to run "${command}":`, error);
+      setStep(id, (s) => ({
+        ...s,
+        status: "failed",
+        output:
+          s.output + (error instanceof Error ? error.message : String(error)),
+      }));
+      return false;
+    }
+  };
+
+  const exclusive = async (task: () => Promise<void>) => {
+    if (isRunningRef.current) return;
+    isRunningRef.current = true;
+    setIsRunning(true);
+    try {
+      await task();
+    } finally {
+      isRunningRef.current = false;
+      setIsRunning(false);
+    }
+  };
+
+  /**
+   * Run the pending steps in order, stopping at the first failure.
+   * `restart` runs every step again.
+   */
+  const runAll = (restart = false) =>
+    exclusive(async () => {
+      if (restart) {
+        // Results of processes still running belong to the previous run
+        processesRef.current.clear();
+        stepsRef.current = stepsRef.current.map((step) => ({
+          ...step,
+          status: "pending",
+          output: "",
+          exitCode: undefined,
+          note: undefined,
+        }));
+        setSteps(stepsRef.current);
+      }
+      for (const { id } of stepsRef.current) {
+        // Steps can be skipped while earlier ones run
+        const status = stepsRef.current.find((step) => step.id === id)?.status;
+        if (status !== "pending") continue;
+        if (!(await runStep(id))) break;
+      }
+    });
+
+  /**
+   * Run a single step, again if it ran before
+   */
+  const run = (id: string) =>
+    exclusive(async () => {
+      await runStep(id);
+    });
+
+  const skip = (id: string) => {
+    setStep(id, (step) =>
+      step.status === "running"
+        ? step
+        : { ...step, status: "skipped", note: "Skipped" }
+    );
+  };
+
+  return { steps, isRunning, load, runAll, run, skip };
+}
@@ -0,0 +1,16 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import { webContainerRuntime, type RuntimeState } from "./webcontainer";
+
+const subscribe = (onChange: () => void) =>
+  webContainerRuntime.on("state", onChange);
+
+const getState = () => webContainerRuntime.state;
+
+/**
+ * The WebContainer runtime state, re-rendering whenever it changes
+ */
+export function useWebContainerRuntime(): RuntimeState {
+  return useSyncExternalStore(subscribe, getState, getState);
+}
@@ -1,57 +1,237 @@
-import { WebContainer, type FileSystemTree, type WebContainerProcess } from '@webcontainer/api'
+import { WebContainer, type FileSystemTree, type IFSWatcher, type PreviewMessage, type WebContainerProcess } from '@webcontainer/api'
 import type { ParsedFile } from '@/lib/xml-parser'
+import { isDevServerCommand } from '@/lib/shell-actions'
+import { LOCKFILES, dependencyCacheKey, loadDependencySnapshot, saveDependencySnapshot } from '@/lib/dependency-cache'
 
-export interface ContainerFile {
-  file: {
-    contents: string
-  }
+export type RuntimeStatus = 'idle' | 'booting' | 'ready' | 'error'
+
+/**
+ * A process started through the runtime
+ */
+export interface RuntimeProcess {
+  id: number
+  command: string
+  isDevServer: boolean // Keeps running and serves the preview
+  process: WebContainerProcess
+}
+
+/**
+ * Everything the UI shows about the container. Replaced, never mutated, so
+ * it can be compared by reference.
+ */
+export interface RuntimeState {
+  status: RuntimeStatus
+  error: string | null
+  isInstalling: boolean
+  devServer: RuntimeProcess | null
+  previewUrl: string
+}
+
+export type RuntimeEvent =
+  | { type: 'state'; state: RuntimeState }
+  | { type: 'mount'; fileCount: number }
+  | { type: 'sync'; result: SyncResult }
+  | { type: 'output'; process: RuntimeProcess | null; text: string } // null for messages of the app
+  | { type: 'process-start'; process: RuntimeProcess }
+  | { type: 'process-exit'; process: RuntimeProcess; exitCode: number }
+  | { type: 'server-ready'; port: number; url: string }
+  | { type: 'fs-change'; changed: RuntimeFileChange[]; removed: string[] }
+  | { type: 'preview-message'; message: PreviewMessage } // Errors reported by the preview page
+
+type RuntimeListener<T extends RuntimeEvent['type']> = (event: Extract<RuntimeEvent, { type: T }>) => void
+
+/**
+ * A file a command in the container created or changed
+ */
+export interface RuntimeFileChange {
+  path: string
+  content: string
+}
+
+/**
+ * What a sync changed in the container
+ */
+export interface SyncResult {
+  written: string[]
+  removed: string[]
+  failed: string[]
+}
+
+export interface CommandResult {
+  success: boolean
+  exitCode: number
+  output: string
 }
 
-export interface ContainerDirectory {
-  directory: Record<string, ContainerFile | ContainerDirectory>
+const INSTALL_COMMAND = [
+  'npm install',
+  '--no-package-lock',
+  '--no-audit',
+  '--no-fund',
+  '--registry=https://registry.npmjs.org/',
+  '--fetch-retries=3',
+  '--fetch-retry-mintimeout=20000',
+  '--fetch-retry-maxtimeout=120000',
+  '--maxsockets=1',
+].join(' ')
+
+const DEV_SERVER_COMMAND = 'npm run dev'
+
+// Output kept for terminals opened later, older output is dropped
+const MAX_OUTPUT_LOG = 200000
+
+// Files written at the same time, enough to keep the writes short
+// without flooding the dev server's watcher
+const WRITE_BATCH_SIZE = 16
+
+// Generated folders the watcher leaves alone, they are huge and not project files
+const UNWATCHED_DIRS = ['node_modules', '.next', '.git']
+
+// Larger files are left out of the project, they are build output or assets
+const MAX_WATCHED_FILE_SIZE = 512 * 1024
+
+// Quiet time before changes are read, commands write many files in a burst
+const WATCH_DEBOUNCE_MS = 300
+
+const normalizePath = (path: string) => path.replace(/^(\.\/|\/)+/, '')
+
+const isUnwatched = (path: string) => path.split('/').some(part => UNWATCHED_DIRS.includes(part))
+
+const parentDirs = (path: string): string[] => {
+  const parts = path.split('/')
+  return parts.slice(1).map((_, i) => parts.slice(0, i + 1).join('/'))
 }
 
-export type ContainerFileSystemTree = Record<string, ContainerFile | ContainerDirectory>
+const isWithin = (path: string, dir: string) => path === dir || path.startsWith(`${dir}/`)
+
+/**
+ * FNV-1a hash of a file's contents, only used to notice changes
+ */
+const hashContent = (content: string): string => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return `${content.length}:${(hash >>> 0).toString(16)}`
+}
 
-export class WebContainerService {
-  private static instance: WebContainerService | null = null
+/**
+ * The one WebContainer of the page: boots it, keeps its files in step with
+ * the project and runs processes in it. Components subscribe to its events
+ * instead of keeping their own copy of the container state.
+ */
+export class WebContainerRuntime {
   private webcontainer: WebContainer | null = null
-  private isBooting = false
   private bootPromise: Promise<WebContainer> | null = null
+  private listeners = new Map<RuntimeEvent['type'], Set<(event: RuntimeEvent) => void>>()
+  private processes = new Map<number, RuntimeProcess>()
+  private nextProcessId = 1
+  // Content hash of every project file in the container, by path
+  private syncedHashes = new Map<string, string>()
+  // Files waiting for the running sync to finish, only the latest set matters
+  private pendingSync: ParsedFile[] | null = null
+  private syncPromise: Promise<SyncResult> | null = null
+  // A watcher for the root folder itself and a recursive one for each folder in it
+  private watchers = new Map<string, IFSWatcher>()
+  // Paths the watcher reported since the last time changes were read
+  private watchedPaths = new Set<string>()
+  private watchTimer: ReturnType<typeof setTimeout> | null = null
+  // Output of every process run through the runtime, with its ANSI codes
+  private output = ''
+  // Dependency cache key of what node_modules holds, null when unknown
+  private installedKey: string | null = null
 
-  static getInstance(): WebContainerService {
-    if (!WebContainerService.instance) {
-      WebContainerService.instance = new WebContainerService()
+  state: RuntimeState = {
+    status: 'idle',
+    error: null,
+    isInstalling: false,
+    devServer: null,
+    previewUrl: '',
+  }
+
+  /**
+   * Subscribe to one kind of event, returns the unsubscribe function
+   */
+  on<T extends RuntimeEvent['type']>(type: T, listener: RuntimeListener<T>): () => void {
+    const listeners = this.listeners.get(type) ?? new Set()
+    listeners.add(listener as (event: RuntimeEvent) => void)
+    this.listeners.set(type, listeners)
+    return () => {
+      listeners.delete(listener as (event: RuntimeEvent) => void)
     }
-    return WebContainerService.instance
   }
 
-  async getWebContainer(): Promise<WebContainer> {
+  private emit(event: RuntimeEvent) {
+    this.listeners.get(event.type)?.forEach(listener => {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error(`WebContainer ${event.type} listener failed:`, error)
+      }
+    })
+  }
+
+  private setState(update: Partial<RuntimeState>) {
+    this.state = { ...this.state, ...update }
+    this.emit({ type: 'state', state: this.state })
+  }
+
+  /**
+   * Boot the container once, later calls wait for the same boot
+   */
+  boot(): Promise<WebContainer> {
     if (this.webcontainer) {
-      return this.webcontainer
+      return Promise.resolve(this.webcontainer)
     }
-
-    if (this.isBooting && this.bootPromise) {
-      return this.bootPromise
+    if (!this.bootPromise) {
+      this.bootPromise = this.bootWebContainer().finally(() => {
+        this.bootPromise = null
+      })
     }
+    return this.bootPromise
+  }
 
-    this.isBooting = true
-    this.bootPromise = this.bootWebContainer()
-    
+  private async bootWebContainer(): Promise<WebContainer> {
+    this.setState({ status: 'booting', error: null })
     try {
-      this.webcontainer = await this.bootPromise
-      return this.webcontainer
-    } finally {
-      this.isBooting = false
-      this.bootPromise = null
+      console.log('WebContainer: Starting boot process...')
+      // The preview gets a small script that posts its uncaught errors,
+      // unhandled rejections and console errors back to this page
+      const container = await WebContainer.boot({ forwardPreviewErrors: true })
+      console.log('WebContainer: Boot successful')
+
+      container.on('server-ready', (port, url) => {
+        this.setState({ previewUrl: url })
+        this.emit({ type: 'server-ready', port, url })
+      })
+      container.on('preview-message', message => {
+        this.emit({ type: 'preview-message', message })
+      })
+
+      this.webcontainer = container
+      this.watch(container)
+      this.setState({ status: 'ready' })
+      return container
+    } catch (error) {
+      console.error('WebContainer: Boot failed:', error)
+      this.setState({
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Failed to boot WebContainer',
+      })
+      throw error
     }
   }
 
-  private async bootWebContainer(): Promise<WebContainer> {
-    console.log('Booting WebContainer...')
-    const container = await WebContainer.boot()
-    console.log('WebContainer booted successfully')
-    return container
+  /**
+   * The booted container, or null before boot finished
+   */
+  get container(): WebContainer | null {
+    return this.webcontainer
+  }
+
+  get isReady(): boolean {
+    return this.state.status === 'ready'
   }
 
   /**
@@ -68,7 +248,7 @@ export class WebContainerService {
       for (let i = 0; i < pathParts.length - 1; i++) {
         const dirName = pathParts[i]
         if (!dirName) continue
-        
+
         if (!current[dirName]) {
           current[dirName] = {
             directory: {}
@@ -94,207 +274,537 @@ export class WebContainerService {
   }
 
   /**
-   * Mount files to the WebContainer
+   * Mount the project files as a whole, replacing what an earlier mount or sync wrote
    */
-  async mountFiles(files: ParsedFile[]): Promise<void> {
-    const container = await this.getWebContainer()
-    const fileSystemTree = this.convertFilesToFileSystemTree(files)
-    
-    console.log('Mounting files to WebContainer:', Object.keys(fileSystemTree))
-    await container.mount(fileSystemTree)
-    console.log('Files mounted successfully')
+  async mount(files: ParsedFile[]): Promise<void> {
+    const container = await this.boot()
+    console.log(`Mounting ${files.length} files to WebContainer`)
+    await container.mount(this.convertFilesToFileSystemTree(files))
+    await this.removeStaleFiles(files.map(file => normalizePath(file.path)))
+    this.syncedHashes = new Map(files.map(file => [normalizePath(file.path), hashContent(file.content)]))
+    await this.restoreCachedDependencies(container)
+    this.emit({ type: 'mount', fileCount: files.length })
   }
 
   /**
-   * Update files in the WebContainer by writing them individually
-   * This is more efficient than re-mounting the entire file system
+   * Bring the container in line with the project files, writing only the
+   * ones that changed since the last sync and removing the ones that are
+   * gone. The first sync mounts everything at once. Calls made while a sync
+   * runs are folded into one follow-up sync with the latest files.
    */
-  async updateFiles(files: ParsedFile[]): Promise<void> {
-    const container = await this.getWebContainer()
-    
-    console.log(`Updating ${files.length} files in WebContainer`)
-    
-    let updatedCount = 0
-    let errorCount = 0
-    
-    for (const file of files) {
-      try {
-        // Ensure directory exists
-        const dirPath = file.path.substring(0, file.path.lastIndexOf('/'))
-        if (dirPath) {
-          await container.fs.mkdir(dirPath, { recursive: true }).catch(() => {
-            // Directory might already exist, ignore error
+  sync(files: ParsedFile[]): Promise<SyncResult> {
+    this.pendingSync = files
+    if (!this.syncPromise) {
+      this.syncPromise = this.flushSync().finally(() => {
+        this.syncPromise = null
+      })
+    }
+    return this.syncPromise
+  }
+
+  private async flushSync(): Promise<SyncResult> {
+    let result: SyncResult = { written: [], removed: [], failed: [] }
+    while (this.pendingSync) {
+      const files = this.pendingSync
+      this.pendingSync = null
+      result = await this.applySync(files)
+    }
+    return result
+  }
+
+  private async applySync(files: ParsedFile[]): Promise<SyncResult> {
+    if (this.syncedHashes.size === 0) {
+      await this.mount(files)
+      const result = { written: files.map(file => normalizePath(file.path)), removed: [], failed: [] }
+      this.emit({ type: 'sync', result })
+      return result
+    }
+
+    const container = await this.boot()
+    const hashes = new Map(files.map(file => [normalizePath(file.path), hashContent(file.content)]))
+    const changed = files.filter(file => {
+      const path = normalizePath(file.path)
+      return this.syncedHashes.get(path) !== hashes.get(path)
+    })
+    const result: SyncResult = { written: [], removed: [], failed: [] }
+
+    const dirs = new Set(changed.flatMap(file => parentDirs(normalizePath(file.path))))
+    for (const dir of dirs) {
+      await container.fs.mkdir(dir, { recursive: true }).catch(() => {
+        // A file of the same name is in the way, the write below reports it
+      })
+    }
+
+    for (let i = 0; i < changed.length; i += WRITE_BATCH_SIZE) {
+      await Promise.all(
+        changed.slice(i, i + WRITE_BATCH_SIZE).map(async file => {
+          const path = normalizePath(file.path)
+          try {
+            await container.fs.writeFile(path, file.content)
+            this.syncedHashes.set(path, hashes.get(path)!)
+            result.written.push(path)
+          } catch (error) {
+            console.error(`Failed to update file ${path}:`, error)
+            result.failed.push(path)
+          }
+        })
+      )
+    }
+
+    result.removed = await this.removeStaleFiles([...hashes.keys()])
+    this.emit({ type: 'sync', result })
+    return result
+  }
+
+  /**
+   * Remove synced files that are no longer part of the project, e.g. after a
+   * delete or rename action, and folders left empty by them. Mounting and
+   * writing never remove anything. Returns the removed files.
+   */
+  private async removeStaleFiles(paths: string[]): Promise<string[]> {
+    const container = await this.boot()
+    const kept = new Set(paths)
+    const stalePaths = [...this.syncedHashes.keys()].filter(path => !kept.has(path))
+
+    for (const stalePath of stalePaths) {
+      await container.fs.rm(stalePath, { force: true }).catch(error => {
+        console.error(`Failed to remove ${stalePath}:`, error)
+      })
+      this.syncedHashes.delete(stalePath)
+    }
+
+    const keptDirs = new Set(paths.flatMap(parentDirs))
+    const staleDirs = new Set(stalePaths.flatMap(parentDirs).filter(dir => !keptDirs.has(dir)))
+    for (const staleDir of staleDirs) {
+      await container.fs.rm(staleDir, { recursive: true, force: true }).catch(() => {
+        // Already removed along with its parent
+      })
+    }
+    return stalePaths
+  }
+
+  /**
+   * Watch the container for files that commands create, change or delete,
+   * e.g. a scaffolding tool, and report them as fs-change events. Writes of
+   * the runtime itself are recognised by their hash and not reported.
+   *
+   * The root is watched without its subfolders and each project folder on its
+   * own, so generated folders like node_modules, where npm writes thousands of
+   * files, never raise an event.
+   */
+  private watch(container: WebContainer) {
+    this.watchDir(container, '.', false)
+    container.fs
+      .readdir('.', { withFileTypes: true })
+      .then(entries => {
+        for (const entry of entries) {
+          if (entry.isDirectory() && !isUnwatched(entry.name)) this.watchDir(container, entry.name, true)
+        }
+      })
+      .catch(error => {
+        console.error('Failed to watch WebContainer files:', error)
+      })
+  }
+
+  private watchDir(container: WebContainer, dir: string, recursive: boolean) {
+    if (this.watchers.has(dir)) return
+    try {
+      const watcher = container.fs.watch(dir, { recursive }, (_event, filename) => {
+        const name = normalizePath(typeof filename === 'string' ? filename : new TextDecoder().decode(filename))
+        const path = dir === '.' ? name : `${dir}/${name}`
+        if (!name || isUnwatched(path)) return
+
+        if (dir === '.') {
+          this.updateDirWatcher(container, path).catch(error => {
+            console.error('Failed to watch WebContainer files:', error)
           })
         }
-        
-        // Write the file
-        await container.fs.writeFile(file.path, file.content)
-        updatedCount++
-      } catch (error) {
-        console.error(`Failed to update file ${file.path}:`, error)
-        errorCount++
+        this.watchedPaths.add(path)
+        if (this.watchTimer) clearTimeout(this.watchTimer)
+        this.watchTimer = setTimeout(() => {
+          this.watchTimer = null
+          this.readWatchedChanges().catch(error => {
+            console.error('Failed to read WebContainer changes:', error)
+          })
+        }, WATCH_DEBOUNCE_MS)
+      })
+      this.watchers.set(dir, watcher)
+    } catch (error) {
+      console.error('Failed to watch WebContainer files:', error)
+    }
+  }
+
+  /**
+   * A folder created in the root gets a watcher, a removed one loses it.
+   * What was written to a new folder before its watcher started is read with
+   * the folder itself.
+   */
+  private async updateDirWatcher(container: WebContainer, path: string) {
+    const isDir = await container.fs.readdir(path).then(() => true, () => false)
+    const watcher = this.watchers.get(path)
+    if (isDir && !watcher) {
+      this.watchDir(container, path, true)
+    } else if (!isDir && watcher) {
+      watcher.close()
+      this.watchers.delete(path)
+    }
+  }
+
+  private async readWatchedChanges(): Promise<void> {
+    const container = this.webcontainer
+    if (!container) return
+    // Files a running sync writes are only recorded once it finished
+    await this.syncPromise?.catch(() => undefined)
+
+    const paths = [...this.watchedPaths]
+    this.watchedPaths.clear()
+    const changed = new Map<string, string>()
+    const removed: string[] = []
+
+    for (const path of paths) {
+      const files = await this.readFiles(container, path)
+      if (!files) {
+        for (const synced of [...this.syncedHashes.keys()]) {
+          if (isWithin(synced, path)) {
+            this.syncedHashes.delete(synced)
+            removed.push(synced)
+          }
+        }
+        // A removed folder takes its folder entries in the project with it
+        if (!removed.includes(path)) removed.push(path)
+        continue
+      }
+
+      for (const file of files) {
+        const hash = hashContent(file.content)
+        if (this.syncedHashes.get(file.path) === hash) continue
+        this.syncedHashes.set(file.path, hash)
+        changed.set(file.path, file.content)
       }
     }
-    
-    console.log(`Files updated: ${updatedCount} successful, ${errorCount} errors`)
-    
-    if (errorCount > 0) {
-      throw new Error(`Failed to update ${errorCount} files`)
+
+    if (changed.size > 0 || removed.length > 0) {
+      this.emit({
+        type: 'fs-change',
+        changed: [...changed].map(([path, content]) => ({ path, content })),
+        removed,
+      })
     }
   }
 
   /**
-   * Install dependencies using npm
+   * The text files at a path, everything below it for a folder, or null when
+   * nothing exists there anymore
    */
-  async installDependencies(): Promise<{ success: boolean; exitCode: number; output: string }> {
-    const container = await this.getWebContainer()
-    
-    console.log('Installing dependencies...')
-    const installProcess = await container.spawn('npm', ['install'])
-    
-    let output = ''
-    const reader = installProcess.output.getReader()
-    
+  private async readFiles(container: WebContainer, path: string): Promise<RuntimeFileChange[] | null> {
     try {
-      while (true) {
-        const { value, done } = await reader.read()
-        if (done) break
-        output += value
-        console.log('Install output:', value)
+      const content = await container.fs.readFile(path, 'utf-8')
+      const isText = content.length <= MAX_WATCHED_FILE_SIZE && !content.includes('\u0000')
+      return isText ? [{ path, content }] : []
+    } catch {
+      // A folder, or removed
+    }
+
+    try {
+      const entries = await container.fs.readdir(path, { withFileTypes: true })
+      const files: RuntimeFileChange[] = []
+      for (const entry of entries) {
+        const entryPath = `${path}/${entry.name}`
+        if (isUnwatched(entryPath)) continue
+        files.push(...((await this.readFiles(container, entryPath)) ?? []))
       }
-    } finally {
-      reader.releaseLock()
+      return files
+    } catch {
+      return null
     }
+  }
+
+  /**
+   * Output of the processes so far, to fill a terminal that opens late
+   */
+  get outputLog(): string {
+    return this.output
+  }
+
+  private appendOutput(process: RuntimeProcess | null, text: string) {
+    this.output = (this.output + text).slice(-MAX_OUTPUT_LOG)
+    this.emit({ type: 'output', process, text })
+  }
+
+  /**
+   * Add a message of the app to the output, between the process output
+   */
+  print(text: string): void {
+    this.appendOutput(null, text)
+  }
 
-    const exitCode = await installProcess.exit
-    console.log('Install process exited with code:', exitCode)
-    
-    return {
-      success: exitCode === 0,
-      exitCode,
-      output
+  /**
+   * Start an interactive jsh for a terminal. It is not one of the runtime's
+   * processes: its output only goes to the terminal and stopAll leaves it
+   * running, the terminal kills it when it closes.
+   */
+  async openShell(size: { cols: number; rows: number }): Promise<WebContainerProcess> {
+    const container = await this.boot()
+    return container.spawn('jsh', { terminal: size })
+  }
+
+  /**
+   * Run a shell command in jsh, so && chains and quoting work like in a
+   * terminal. Output is emitted as it arrives, ANSI codes included; a dev
+   * server becomes the runtime's dev server until it exits.
+   */
+  async run(command: string, onOutput?: (text: string) => void): Promise<RuntimeProcess> {
+    const container = await this.boot()
+    console.log(`Running command: ${command}`)
+    const process = await container.spawn('jsh', ['-c', command])
+    const runtimeProcess: RuntimeProcess = {
+      id: this.nextProcessId++,
+      command,
+      isDevServer: isDevServerCommand(command),
+      process,
     }
+
+    this.processes.set(runtimeProcess.id, runtimeProcess)
+    this.emit({ type: 'process-start', process: runtimeProcess })
+    if (runtimeProcess.isDevServer) {
+      this.setState({ devServer: runtimeProcess })
+    }
+
+    process.output
+      .pipeTo(
+        new WritableStream({
+          write: data => {
+            onOutput?.(data)
+            this.appendOutput(runtimeProcess, data)
+          },
+        })
+      )
+      .catch(error => {
+        console.error(`Output stream of "${command}" failed:`, error)
+      })
+
+    process.exit.then(exitCode => {
+      this.processes.delete(runtimeProcess.id)
+      if (this.state.devServer === runtimeProcess) {
+        this.setState({ devServer: null, previewUrl: '' })
+      }
+      this.emit({ type: 'process-exit', process: runtimeProcess, exitCode })
+    })
+
+    return runtimeProcess
   }
 
   /**
-   * Start the development server
+   * Run a command to completion and collect its output
    */
-  async startDevServer(): Promise<{ process: WebContainerProcess; output: string }> {
-    const container = await this.getWebContainer()
-    
-    console.log('Starting development server...')
-    const devProcess = await container.spawn('npm', ['run', 'dev'])
-    
+  async runToCompletion(command: string, onOutput?: (text: string) => void): Promise<CommandResult> {
     let output = ''
-    const reader = devProcess.output.getReader()
-    
-    // Start reading output but don't wait for completion
-    const readOutput = async () => {
-      try {
-        while (true) {
-          const { value, done } = await reader.read()
-          if (done) break
-          output += value
-          console.log('Dev server output:', value)
+    const { process } = await this.run(command, text => {
+      output += text
+      onOutput?.(text)
+    })
+    const exitCode = await process.exit
+    return { success: exitCode === 0, exitCode, output }
+  }
+
+  /**
+   * Install dependencies using npm. node_modules comes from the cache when
+   * the same dependencies were installed before, in any project; otherwise
+   * the latest cached node_modules is restored and npm only installs the
+   * difference. Skipped when node_modules already matches package.json.
+   */
+  async install(onOutput?: (text: string) => void): Promise<CommandResult> {
+    const container = await this.boot()
+    const key = await this.dependencyKey(container)
+    if (!key) {
+      throw new Error('No package.json found. Please ensure your project includes a package.json file.')
+    }
+    const report = (text: string) => {
+      onOutput?.(text)
+      this.print(text)
+    }
+
+    const hasNodeModules = await this.hasNodeModules(container)
+    if (hasNodeModules && this.installedKey === key) {
+      return { success: true, exitCode: 0, output: 'Dependencies already installed' }
+    }
+
+    this.setState({ isInstalling: true })
+    try {
+      if (!hasNodeModules) {
+        const restoredKey = await this.restoreDependencies(container, key, { closest: true })
+        if (restoredKey === key) {
+          this.installedKey = key
+          report('\n📦 Restored node_modules from the cache\n')
+          return { success: true, exitCode: 0, output: 'Restored from cache' }
+        }
+        if (restoredKey) {
+          report('\n📦 Restored cached node_modules, installing the changed dependencies\n')
         }
-      } finally {
-        reader.releaseLock()
       }
-    }
-    
-    // Start reading output in background
-    readOutput().catch(console.error)
-    
-    return {
-      process: devProcess,
-      output
+
+      const result = await this.runToCompletion(INSTALL_COMMAND, onOutput)
+      if (result.success) {
+        this.installedKey = key
+        this.cacheDependencies(container, key)
+      }
+      return result
+    } finally {
+      this.setState({ isInstalling: false })
     }
   }
 
   /**
-   * Run a custom command
+   * Hash of package.json and the lockfile, null without package.json
    */
-  async runCommand(command: string, args: string[] = []): Promise<{ success: boolean; exitCode: number; output: string }> {
-    const container = await this.getWebContainer()
-    
-    console.log(`Running command: ${command} ${args.join(' ')}`)
-    const process = await container.spawn(command, args)
-    
-    let output = ''
-    const reader = process.output.getReader()
-    
+  private async dependencyKey(container: WebContainer): Promise<string | null> {
+    let packageJson: string
     try {
-      while (true) {
-        const { value, done } = await reader.read()
-        if (done) break
-        output += value
-        console.log('Command output:', value)
+      packageJson = await container.fs.readFile('package.json', 'utf-8')
+    } catch {
+      return null
+    }
+    for (const lockfile of LOCKFILES) {
+      try {
+        return await dependencyCacheKey(packageJson, await container.fs.readFile(lockfile, 'utf-8'))
+      } catch {
+        // Try the next kind of lockfile
       }
-    } finally {
-      reader.releaseLock()
     }
+    return dependencyCacheKey(packageJson)
+  }
 
-    const exitCode = await process.exit
-    console.log(`Command exited with code: ${exitCode}`)
-    
-    return {
-      success: exitCode === 0,
-      exitCode,
-      output
+  private async hasNodeModules(container: WebContainer): Promise<boolean> {
+    try {
+      return (await container.fs.readdir('node_modules')).length > 0
+    } catch {
+      return false
     }
   }
 
+  /**
+   * Mount a cached node_modules, returns the key it was saved under or null
+   * when nothing was restored
+   */
+  private async restoreDependencies(
+    container: WebContainer,
+    key: string,
+    options: { closest: boolean }
+  ): Promise<string | null> {
+    try {
+      const cached = await loadDependencySnapshot(key, options)
+      if (!cached) return null
+      await container.fs.mkdir('node_modules', { recursive: true })
+      await container.mount(cached.snapshot, { mountPoint: 'node_modules' })
+      return cached.key
+    } catch (error) {
+      console.error('Failed to restore node_modules from the cache:', error)
+      return null
+    }
+  }
+
+  /**
+   * Restore node_modules on mount when the cache has the project's exact dependencies
+   */
+  private async restoreCachedDependencies(container: WebContainer): Promise<void> {
+    if (await this.hasNodeModules(container)) return
+    const key = await this.dependencyKey(container)
+    if (key && (await this.restoreDependencies(container, key, { closest: false }))) {
+      this.installedKey = key
+      this.print('\n📦 Restored node_modules from the cache\n')
+    }
+  }
+
+  /**
+   * Save node_modules for later sessions, in the background
+   */
+  private cacheDependencies(container: WebContainer, key: string) {
+    container
+      .export('node_modules', { format: 'binary' })
+      .then(snapshot => saveDependencySnapshot(key, snapshot))
+      .catch(error => {
+        console.error('Failed to cache node_modules:', error)
+      })
+  }
+
+  /**
+   * Start the development server unless one is already running
+   */
+  async startDevServer(command = DEV_SERVER_COMMAND): Promise<RuntimeProcess> {
+    return this.state.devServer ?? this.run(command)
+  }
+
+  /**
+   * Stop the dev server and every other process started through the runtime
+   */
+  stopAll(): void {
+    for (const { process } of this.processes.values()) {
+      try {
+        process.kill()
+      } catch (error) {
+        console.error('Failed to kill process:', error)
+      }
+    }
+    this.processes.clear()
+    this.setState({ devServer: null, previewUrl: '' })
+  }
+
   /**
    * Write a single file to the container
    */
   async writeFile(path: string, content: string): Promise<void> {
-    const container = await this.getWebContainer()
+    const container = await this.boot()
     console.log(`Writing file: ${path}`)
     await container.fs.writeFile(path, content)
+    this.syncedHashes.set(normalizePath(path), hashContent(content))
   }
 
   /**
    * Read a file from the container
    */
   async readFile(path: string): Promise<string> {
-    const container = await this.getWebContainer()
-    console.log(`Reading file: ${path}`)
-    const content = await container.fs.readFile(path, 'utf-8')
-    return content
+    const container = await this.boot()
+    return container.fs.readFile(path, 'utf-8')
   }
 
   /**
    * Create a directory in the container
    */
   async createDirectory(path: string): Promise<void> {
-    const container = await this.getWebContainer()
+    const container = await this.boot()
     console.log(`Creating directory: ${path}`)
     await container.fs.mkdir(path, { recursive: true })
   }
 
   /**
-   * Listen for server-ready event
+   * Remove a file or directory (with its contents) from the container
    */
-  async onServerReady(callback: (port: number, url: string) => void): Promise<void> {
-    const container = await this.getWebContainer()
-    container.on('server-ready', callback)
-  }
-
-  /**
-   * Listen for port events
-   */
-  async onPort(callback: (port: number, type: 'open' | 'close', url: string) => void): Promise<void> {
-    const container = await this.getWebContainer()
-    container.on('port', callback)
+  async removePath(path: string): Promise<void> {
+    const container = await this.boot()
+    await container.fs.rm(path, { recursive: true, force: true })
+    for (const synced of [...this.syncedHashes.keys()]) {
+      if (isWithin(synced, normalizePath(path))) this.syncedHashes.delete(synced)
+    }
   }
 
   /**
-   * Get the container instance (for advanced usage)
+   * Rename or move a file or directory, creating the target's parent directory
    */
-  async getContainer(): Promise<WebContainer> {
-    return this.getWebContainer()
+  async renamePath(from: string, to: string): Promise<void> {
+    const container = await this.boot()
+    const parent = to.split('/').slice(0, -1).join('/')
+    if (parent) {
+      await container.fs.mkdir(parent, { recursive: true })
+    }
+    await container.fs.rename(from, to)
+    for (const [synced, hash] of [...this.syncedHashes]) {
+      if (isWithin(synced, normalizePath(from))) {
+        this.syncedHashes.delete(synced)
+        this.syncedHashes.set(normalizePath(to) + synced.slice(normalizePath(from).length), hash)
+      }
+    }
   }
 }
 
-// Export singleton instance
-export const webContainerService = WebContainerService.getInstance() 
\ No newline at end of file
+// Only one WebContainer can be booted per page
+export const webContainerRuntime = new WebContainerRuntime()
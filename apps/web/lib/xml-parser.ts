@@ -1,5 +1,35 @@
-import { XMLParser } from 'fast-xml-parser';
-import { Step, parseForgeXml } from './steps';
+import {
+  ArtifactCollector,
+  ForgeTokenizer,
+  applyPatch,
+  toProjectPath,
+  trimPatch,
+  type Action,
+  type ForgeEvent,
+  type OpenAction,
+} from '@repo/artifacts';
+import { Step, StepBuilder } from './steps';
+import type { FileOperation } from './file-operations';
+
+/**
+ * A delete, rename or patch forgeAction, applied to the files of earlier responses
+ */
+export type ArtifactFileOperation =
+  | Extract<FileOperation, { type: 'delete' | 'rename' }>
+  | { type: 'patch'; path: string; patch: string };
+
+/**
+ * A patch action that did not apply, the file keeps its previous content
+ */
+export interface PatchConflict {
+  path: string;
+  error: string;
+}
+
+type FileTree = Pick<ParsedResponse, 'files' | 'directories'>;
+
+const isWithinPath = (path: string, dir: string): boolean =>
+  path === dir || path.startsWith(`${dir}/`);
 
 export interface ParsedFile {
   id: string;
@@ -8,6 +38,7 @@ export interface ParsedFile {
   content: string;
   language: string;
   isDirectory?: boolean;
+  origin?: "runtime"; // Created or last changed by a command in the WebContainer
   children?: ParsedFile[];
 }
 
@@ -32,61 +63,161 @@ export interface ParsedResponse {
     shellCommands: string[];
   };
   steps?: Step[];
+  fileOperations?: ArtifactFileOperation[]; // delete, rename and patch actions, in the order they appear
+  patchConflicts?: PatchConflict[];
+}
+
+/**
+ * Canonical, resolved file tree of a project as persisted by the backend
+ */
+export interface ProjectState {
+  files: ParsedFile[];
+  directories: ParsedFile[];
+  promptId?: string; // Last SYSTEM prompt already applied to this state
+  restoredFrom?: string; // Prompt whose snapshot the files were restored from
 }
 
+/**
+ * Incremental parse of a single response: chunks are tokenized once as they
+ * arrive and applied to the result, push() and end() return a snapshot of it
+ */
+export interface ResponseStream {
+  readonly length: number; // Characters consumed so far
+  push(chunk: string): ParsedResponse;
+  end(): ParsedResponse;
+}
+
+// Characters compared to tell whether a streamed response continues the previous one
+const STREAM_TAIL_LENGTH = 64;
+// Partial content shorter than this is not worth showing as a file yet
+const MIN_STREAMING_FILE_LENGTH = 10;
+
 export class AIResponseParser {
-  private xmlParser: XMLParser;
-
-  constructor() {
-    this.xmlParser = new XMLParser({
-      ignoreAttributes: false,
-      attributeNamePrefix: '@_',
-      textNodeName: '#text',
-      parseTagValue: false,
-      parseAttributeValue: false,
-      trimValues: true,
-      preserveOrder: true,
-      unpairedTags: ["hr", "br", "img"]
-    });
-  }
+  private streaming: { stream: ResponseStream; tail: string } | null = null;
 
   /**
    * Extract just plain text from a streaming response, removing XML and code blocks
    * This is optimized for real-time streaming where XML might be incomplete
    */
   extractStreamingPlainText(response: string): string {
-    return this.extractPlainTextForStreaming(response);
+    return this.parseResponse(response, true).text || '';
   }
 
   /**
    * Parse AI response text that may contain XML tags for files, code, etc.
+   * While streaming, a response that extends the previous one only has its
+   * new characters parsed.
    */
   parseResponse(response: string, isStreaming: boolean = false): ParsedResponse {
-    
-    const result: ParsedResponse = {
-      files: [],
-      directories: [],
-      codeBlocks: [],
-    };
-
-    if (isStreaming) {
-      this.parseStreamingContent(response, result);
-    } else {
-      this.parseForgeArtifactDirectly(response, result);
+    if (!isStreaming) {
+      const stream = this.createResponseStream(false);
+      stream.push(response);
+      return stream.end();
     }
 
-    result.codeBlocks.push(...this.extractCodeBlocks(response));
+    const previous = this.streaming;
+    const continues =
+      !!previous &&
+      response.length >= previous.stream.length &&
+      response.startsWith(previous.tail, previous.stream.length - previous.tail.length);
+    const stream = continues ? previous!.stream : this.createResponseStream(true);
+    const parsed = stream.push(response.slice(stream.length));
+    this.streaming = { stream, tail: response.slice(-STREAM_TAIL_LENGTH) };
+    return parsed;
+  }
 
-    if (isStreaming) {
-      result.text = this.extractPlainTextForStreaming(response);
-    } else {
-      const xmlBlocks = this.extractXMLBlocks(response);
-      result.text = this.extractPlainText(response, xmlBlocks);
-    }
+  /**
+   * Start an incremental parse. A streaming parse also reports the action
+   * still being written as a partial file.
+   */
+  createResponseStream(isStreaming: boolean = true): ResponseStream {
+    const tokenizer = new ForgeTokenizer();
+    const collector = new ArtifactCollector();
+    const result: ParsedResponse = { files: [], directories: [], codeBlocks: [] };
+    let steps: StepBuilder | null = null;
+    let text = '';
+    let length = 0;
+    // Fenced code blocks of the text, scanning resumes after the last closed one
+    let fenced: { codeBlocks: ParsedResponse['codeBlocks']; end: number } = { codeBlocks: [], end: 0 };
+    // The last snapshot without the partial file, rebuilt only when an action finishes or text arrives
+    let settled: ParsedResponse | null = null;
+    let actionsChanged = false;
+    let textChanged = false;
+
+    const apply = (events: ForgeEvent[]) => {
+      const actions = collector.apply(events);
+      // Later artifacts continue the first one, e.g. full files sent after a patch failed
+      const first = collector.artifacts[0];
+      if (first && !result.artifact) {
+        result.artifact = {
+          id: first.id || 'unknown',
+          title: first.title || 'Untitled Project',
+          shellCommands: [],
+        };
+        steps = new StepBuilder(result.artifact);
+        actionsChanged = true;
+      }
+      actions.forEach(action => this.applyAction(result, action));
+      if (actions.length > 0) {
+        steps?.add(actions);
+        actionsChanged = true;
+      }
+      events.forEach(event => {
+        if (event.type !== 'text') return;
+        text += event.text;
+        textChanged = true;
+      });
+    };
 
-    result.steps = parseForgeXml(response);
+    const snapshot = (): ParsedResponse => {
+      if (!settled || actionsChanged || textChanged) {
+        if (textChanged) {
+          const found = this.extractCodeBlocks(text, fenced.end, fenced.codeBlocks.length);
+          if (found.codeBlocks.length > 0) {
+            fenced = { codeBlocks: [...fenced.codeBlocks, ...found.codeBlocks], end: found.end };
+          }
+        }
+        // The arrays of result are changed in place as actions finish, snapshots get copies
+        const reused = actionsChanged ? null : settled;
+        settled = {
+          ...result,
+          files: reused?.files ?? [...result.files],
+          directories: reused?.directories ?? [...result.directories],
+          codeBlocks: [...result.codeBlocks, ...fenced.codeBlocks],
+          artifact:
+            reused?.artifact ??
+            (result.artifact && { ...result.artifact, shellCommands: [...result.artifact.shellCommands] }),
+          // Clean up extra whitespace but preserve markdown formatting
+          text: textChanged || !settled ? text.replace(/\n\s*\n\s*\n/g, '\n\n').trim() : settled.text,
+          steps: steps?.current ?? [],
+        };
+        actionsChanged = false;
+        textChanged = false;
+      }
 
-    return result;
+      const partial = isStreaming ? this.partialFile(collector.openAction) : null;
+      if (!partial) return settled;
+      const files = [...settled.files];
+      const index = files.findIndex(file => file.path === partial.path);
+      if (index >= 0) files[index] = partial;
+      else files.push(partial);
+      return { ...settled, files };
+    };
+
+    return {
+      get length() {
+        return length;
+      },
+      push: (chunk: string) => {
+        length += chunk.length;
+        apply(tokenizer.push(chunk));
+        return snapshot();
+      },
+      end: () => {
+        apply(tokenizer.end());
+        return snapshot();
+      },
+    };
   }
 
   /**
@@ -99,15 +230,18 @@ export class AIResponseParser {
     
     const mergedFiles: ParsedFile[] = [...aiResult.files];
     const mergedDirectories: ParsedFile[] = [...aiResult.directories];
+    // Boilerplate the response deleted or renamed must not come back, patched boilerplate is kept patched
+    const patchConflicts: PatchConflict[] = [...(aiResult.patchConflicts || [])];
+    const boilerplate = AIResponseParser.applyFileOperations(boilerplateResult, aiResult.fileOperations, patchConflicts);
     
-    boilerplateResult.files.forEach(boilerplateFile => {
+    boilerplate.files.forEach(boilerplateFile => {
       const aiFileExists = aiResult.files.some(aiFile => aiFile.path === boilerplateFile.path);
       if (!aiFileExists) {
         mergedFiles.push(boilerplateFile);
       }
     });
     
-    boilerplateResult.directories.forEach(boilerplateDir => {
+    boilerplate.directories.forEach(boilerplateDir => {
       const aiDirExists = aiResult.directories.some(aiDir => aiDir.path === boilerplateDir.path);
       if (!aiDirExists) {
         mergedDirectories.push(boilerplateDir);
@@ -122,16 +256,10 @@ export class AIResponseParser {
       review: aiResult.review, // Use AI review if present
       artifact: aiResult.artifact || boilerplateResult.artifact, // Prefer AI artifact
       steps: [...(aiResult.steps || []), ...(boilerplateResult.steps || [])],
+      fileOperations: aiResult.fileOperations,
+      patchConflicts: AIResponseParser.unresolvedConflicts(patchConflicts, aiResult),
     };
     
-    console.log('XML Parser - Final result:', {
-      totalFiles: mergedResult.files.length,
-      totalDirectories: mergedResult.directories.length,
-      aiFiles: aiResult.files.length,
-      addedBoilerplateFiles: mergedResult.files.length - aiResult.files.length,
-      codeBlocks: mergedResult.codeBlocks.length
-    });
-    
     return mergedResult;
   }
 
@@ -146,29 +274,14 @@ export class AIResponseParser {
     const existingResult = this.parseResponse(existingFiles, false);
     
     
-    const mergedFiles: ParsedFile[] = [...existingResult.files];
-    const mergedDirectories: ParsedFile[] = [...existingResult.directories];
-    
-    newResult.files.forEach(newFile => {
-      const existingFileIndex = mergedFiles.findIndex(existingFile => existingFile.path === newFile.path);
-      if (existingFileIndex >= 0) {
-        mergedFiles[existingFileIndex] = newFile;
-      } else {
-        mergedFiles.push(newFile);
-      }
-    });
-    
-    newResult.directories.forEach(newDir => {
-      const existingDirIndex = mergedDirectories.findIndex(existingDir => existingDir.path === newDir.path);
-      if (existingDirIndex >= 0) {
-        mergedDirectories[existingDirIndex] = newDir;
-      } else {
-        mergedDirectories.push(newDir);
-      }
-    });
+    const { files: mergedFiles, directories: mergedDirectories } = this.mergeFileTrees(existingResult, newResult);
+    const fileOperations = [...(existingResult.fileOperations || []), ...(newResult.fileOperations || [])];
     
     if (boilerplateComponents) {
-      const boilerplateResult = this.parseResponse(boilerplateComponents);
+      const boilerplateResult = AIResponseParser.applyFileOperations(
+        this.parseResponse(boilerplateComponents),
+        fileOperations
+      );
       
       boilerplateResult.files.forEach(boilerplateFile => {
         const fileExists = mergedFiles.some(file => file.path === boilerplateFile.path);
@@ -194,459 +307,325 @@ export class AIResponseParser {
       review: newResult.review || existingResult.review, // Prefer new AI review
       artifact: newResult.artifact || existingResult.artifact, // Prefer new AI artifact
       steps: [...(existingResult.steps || []), ...(newResult.steps || [])],
+      fileOperations,
+      // Without a known base only conflicts within the new response can be told apart
+      patchConflicts: newResult.patchConflicts,
     };
     
-    console.log('XML Parser - Final merged result:', {
-      totalFiles: mergedResult.files.length,
-      totalDirectories: mergedResult.directories.length,
-      existingFiles: existingResult.files.length,
-      newFiles: newResult.files.length,
-      finalFilesList: mergedResult.files.map(f => f.path)
-    });
-    
     return mergedResult;
   }
 
   /**
-   * Parse streaming content - handles incomplete XML during generation
+   * Overlay one file tree on another, matching entries by path
+   * The overlay's delete, rename and patch actions are applied to the base first,
+   * then entries from the overlay replace existing ones, everything else is kept
    */
-  private parseStreamingContent(response: string, result: ParsedResponse) {
-    
-    // Look for the start of a forgeArtifact block
-    const artifactStartRegex = /<forgeArtifact\s+([^>]*)>/i;
-    const artifactStartMatch = artifactStartRegex.exec(response);
-    
-    if (!artifactStartMatch) {
-      return;
-    }
+  mergeFileTrees(
+    base: FileTree,
+    overlay: FileTree & Pick<ParsedResponse, 'fileOperations'>,
+    conflicts?: PatchConflict[]
+  ): FileTree {
+    const remaining = AIResponseParser.applyFileOperations(base, overlay.fileOperations, conflicts);
+    const files: ParsedFile[] = [...remaining.files];
+    const directories: ParsedFile[] = [...remaining.directories];
+
+    overlay.files.forEach(newFile => {
+      const existingFileIndex = files.findIndex(existingFile => existingFile.path === newFile.path);
+      if (existingFileIndex >= 0) {
+        files[existingFileIndex] = newFile;
+      } else {
+        files.push(newFile);
+      }
+    });
 
-    // Extract attributes from the opening tag
-    const attributes = artifactStartMatch[1] || '';
-    const idMatch = attributes.match(/id=["']([^"']*)["']/i);
-    const titleMatch = attributes.match(/title=["']([^"']*)["']/i);
-    
-    const artifactId = (idMatch && idMatch[1]) || 'streaming-project';
-    const title = (titleMatch && titleMatch[1]) || 'Streaming Project';
-    
-    // Set artifact metadata
-    result.artifact = {
-      id: artifactId,
-      title: title,
-      shellCommands: [],
-    };
+    overlay.directories.forEach(newDir => {
+      const existingDirIndex = directories.findIndex(existingDir => existingDir.path === newDir.path);
+      if (existingDirIndex >= 0) {
+        directories[existingDirIndex] = newDir;
+      } else {
+        directories.push(newDir);
+      }
+    });
 
-    // Get content after the opening tag
-    const contentStart = artifactStartMatch.index! + artifactStartMatch[0].length;
-    const contentAfterTag = response.substring(contentStart);
-    
-    // Look for any complete forgeAction elements
-    const actionRegex = /<forgeAction\s+([^>]*?)>([\s\S]*?)<\/forgeAction>/gi;
-    let actionMatch;
-    
-    
-    while ((actionMatch = actionRegex.exec(contentAfterTag)) !== null) {
-      const actionAttributes = actionMatch[1] || '';
-      const actionContent = actionMatch[2] || '';
-      
-      // Parse attributes
-      const typeMatch = actionAttributes.match(/type=["']?([^"'\s]*)["']?/i);
-      const filePathMatch = actionAttributes.match(/filePath=["']?([^"'\s]*)["']?/i);
-      
-      const type = typeMatch ? typeMatch[1] : '';
-      const filePath = filePathMatch ? filePathMatch[1] : '';
-      
+    return { files, directories };
+  }
 
-      if (type === 'file' && filePath && actionContent) {
-        // Handle file actions
-        const fileName = this.extractFileName(filePath);
-        const content = actionContent.trim();
-        
-        // Create directory structure if needed
-        const directories = this.getDirectoriesFromPath(filePath);
-        directories.forEach(dirPath => {
-          const dirName = this.extractFileName(dirPath);
-          const existingDir = result.directories.find(d => d.path === dirPath);
-          if (!existingDir) {
-            const parsedDir: ParsedFile = {
-              id: `dir-${dirPath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-              name: dirName,
-              path: dirPath,
-              content: '',
-              language: '',
-              isDirectory: true,
-              children: []
-            };
-            console.log('XML Parser - Adding streaming directory:', parsedDir);
-            result.directories.push(parsedDir);
-          }
-        });
-        
-        // Check if file already exists (handle duplicates)
-        const existingFileIndex = result.files.findIndex(f => f.path === filePath);
-        if (existingFileIndex >= 0) {
-          // Update existing file (later files override earlier ones)
-          result.files[existingFileIndex] = {
-            id: `file-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-            name: fileName,
-            path: filePath,
-            content: content,
-            language: this.detectLanguage(fileName),
-          };
-          console.log('XML Parser - Updating existing streaming file:', filePath);
-        } else {
-          // Add new file
-          const parsedFile: ParsedFile = {
-            id: `file-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-            name: fileName,
-            path: filePath,
-            content: content,
-            language: this.detectLanguage(fileName),
-          };
-          
-          console.log('XML Parser - Adding new streaming file:', parsedFile);
-          result.files.push(parsedFile);
-        }
+  /**
+   * Resolve the project file tree after each AI response, in order
+   * Every response is merged on top of the previous tree the same way
+   * parseResponseWithExistingFiles does; boilerplate fills in missing files
+   * trees[0] is the starting point (boilerplate only) and trees[i] is the tree
+   * after the i-th response, so trees[i - 1] -> trees[i] is what response i changed
+   */
+  parseGenerations(responses: string[], boilerplateComponents?: string): FileTree[] {
+    const boilerplate: FileTree = boilerplateComponents
+      ? this.parseResponse(boilerplateComponents, false)
+      : { files: [], directories: [] };
+
+    // Merging in order lets a response delete or rename boilerplate files too
+    const trees: FileTree[] = [boilerplate];
+    let current = boilerplate;
+
+    responses.forEach(response => {
+      current = this.mergeFileTrees(current, this.parseResponse(response, false));
+      trees.push(current);
+    });
 
-        // Also add as code block for display
-        const existingCodeBlock = result.codeBlocks.find(cb => cb.filename === filePath);
-        if (!existingCodeBlock) {
-          result.codeBlocks.push({
-            id: `code-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-            language: this.detectLanguage(fileName),
-            content: content,
-            filename: filePath,
-          });
-        }
-      } else if (type === 'shell') {
-        // Handle shell commands
-        if (actionContent.trim()) {
-          result.artifact.shellCommands.push(actionContent.trim());
-        }
+    return trees;
+  }
+
+  /**
+   * Apply a new AI response on top of a persisted project state
+   * The state already contains boilerplate, so no extra merging is needed
+   */
+  parseResponseWithState(newResponse: string, state: ProjectState, isStreaming: boolean = false): ParsedResponse {
+    const newResult = newResponse
+      ? this.parseResponse(newResponse, isStreaming)
+      : { files: [], directories: [], codeBlocks: [] };
+
+    const patchConflicts: PatchConflict[] = [...(newResult.patchConflicts || [])];
+    const remaining = AIResponseParser.applyFileOperations(state, newResult.fileOperations, patchConflicts);
+    const mergedFiles: ParsedFile[] = [...remaining.files];
+    const mergedDirectories: ParsedFile[] = [...remaining.directories];
+
+    newResult.files.forEach(newFile => {
+      const existingFileIndex = mergedFiles.findIndex(existingFile => existingFile.path === newFile.path);
+      if (existingFileIndex >= 0) {
+        mergedFiles[existingFileIndex] = newFile;
+      } else {
+        mergedFiles.push(newFile);
       }
-    }
+    });
 
-    // Also look for incomplete forgeAction elements (still being written)
-    const incompleteActionRegex = /<forgeAction\s+([^>]*?)>([\s\S]*?)$/i;
-    const incompleteMatch = incompleteActionRegex.exec(contentAfterTag);
-    
-    if (incompleteMatch) {
-      const actionAttributes = incompleteMatch[1] || '';
-      const partialContent = incompleteMatch[2] || '';
-      
-      // Parse attributes
-      const typeMatch = actionAttributes.match(/type=["']?([^"'\s]*)["']?/i);
-      const filePathMatch = actionAttributes.match(/filePath=["']?([^"'\s]*)["']?/i);
-      
-      const type = typeMatch ? typeMatch[1] : '';
-      const filePath = filePathMatch ? filePathMatch[1] : '';
-      
-      if (type === 'file' && filePath && partialContent.length > 10) {
-        console.log('XML Parser - Found incomplete streaming file:', filePath);
-        
-        const fileName = this.extractFileName(filePath);
-        const content = partialContent.trim();
-        
-        // Add as a streaming file (will be updated as more content arrives)
-        const parsedFile: ParsedFile = {
-          id: `streaming-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-          name: fileName + ' (streaming...)',
-          path: filePath,
-          content: content,
-          language: this.detectLanguage(fileName),
-        };
-        
-        // Check if we already have this file and update it
-        const existingIndex = result.files.findIndex(f => f.path === filePath);
-        if (existingIndex >= 0) {
-          result.files[existingIndex] = parsedFile;
-        } else {
-          result.files.push(parsedFile);
-        }
+    newResult.directories.forEach(newDir => {
+      if (!mergedDirectories.some(existingDir => existingDir.path === newDir.path)) {
+        mergedDirectories.push(newDir);
       }
-    }
-    
-    console.log('XML Parser - Streaming parse complete. Found:', {
-      files: result.files.length,
-      directories: result.directories.length
     });
+
+    return {
+      ...newResult,
+      files: mergedFiles,
+      directories: mergedDirectories,
+      patchConflicts: AIResponseParser.unresolvedConflicts(patchConflicts, newResult),
+    };
   }
 
   /**
-   * Parse forgeArtifact directly from raw text using regex
+   * The file action still being written, shown with what arrived so far
    */
-  private parseForgeArtifactDirectly(response: string, result: ParsedResponse) {
-    console.log('XML Parser - Starting forgeArtifact parsing');
-    
-    // Extract the entire forgeArtifact block including opening tag, content, and closing tag
-    let artifactRegex = /<forgeArtifact\s+([^>]*)>([\s\S]*?)<\/forgeArtifact>/gi;
-    let artifactMatch = artifactRegex.exec(response);
-    
-    // If not found, try HTML-encoded version
-    if (!artifactMatch) {
-      artifactRegex = /&lt;forgeArtifact\s+([^&gt;]*)&gt;([\s\S]*?)&lt;\/forgeArtifact&gt;/gi;
-      artifactMatch = artifactRegex.exec(response);
-    }
-    
-    // If still not found, try without closing tag (assume content goes to end)
-    if (!artifactMatch) {
-      artifactRegex = /<forgeArtifact\s+([^>]*)>([\s\S]*?)$/gi;
-      artifactMatch = artifactRegex.exec(response);
-    }
-    
-    // If still not found, try HTML-encoded without closing tag
-    if (!artifactMatch) {
-      artifactRegex = /&lt;forgeArtifact\s+([^&gt;]*)&gt;([\s\S]*?)$/gi;
-      artifactMatch = artifactRegex.exec(response);
-    }
-    
-    if (!artifactMatch) {
-      console.log('XML Parser - No forgeArtifact found');
-      return;
-    }
-
-    const fullMatch = artifactMatch[0] || '';
-    const attributes = artifactMatch[1] || '';
-    const artifactContent = artifactMatch[2] || '';
-    
-    console.log('XML Parser - Found forgeArtifact:', { 
-      fullMatch: fullMatch.substring(0, 200) + '...',
-      attributes,
-      contentLength: artifactContent.length,
-      hasClosingTag: fullMatch.includes('</forgeArtifact>') || fullMatch.includes('&lt;/forgeArtifact&gt;')
-    });
-    
-    // Extract id and title from the opening tag attributes
-    const idMatch = attributes.match(/id=["']([^"']*)["']/i);
-    const titleMatch = attributes.match(/title=["']([^"']*)["']/i);
-    
-    const artifactId = (idMatch && idMatch[1]) || 'unknown';
-    const title = (titleMatch && titleMatch[1]) || 'Untitled Project';
-    
-    console.log('XML Parser - Found forgeArtifact:', { artifactId, title });
-    
-    if (!artifactContent) {
-      console.log('XML Parser - No artifact content found');
-      return;
-    }
-
-    // Set artifact metadata
-    result.artifact = {
-      id: artifactId,
-      title: title,
-      shellCommands: [],
+  private partialFile(action: OpenAction | null): ParsedFile | null {
+    if (!action || action.attributes.type !== 'file' || !action.attributes.filePath) return null;
+    if (action.content.length <= MIN_STREAMING_FILE_LENGTH) return null;
+
+    // Same rule as finished actions, a path outside the project never becomes a file
+    const filePath = toProjectPath(action.attributes.filePath);
+    if (!filePath) return null;
+    const fileName = this.extractFileName(filePath);
+    return {
+      id: `streaming-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
+      name: fileName + ' (streaming...)',
+      path: filePath,
+      content: action.content.trim(),
+      language: AIResponseParser.detectLanguage(fileName),
     };
+  }
 
-    // Enhanced parsing for forgeAction elements using regex
-    const actionRegex = /<forgeAction\s+([^>]*?)>([\s\S]*?)<\/forgeAction>/gi;
-    let actionMatch;
-    let shellIndex = 0;
-    
-    console.log('XML Parser - Searching for forgeAction elements...');
-    
-    while ((actionMatch = actionRegex.exec(artifactContent)) !== null) {
-      const attributes = actionMatch[1] || '';
-      const actionContent = actionMatch[2] || '';
-      
-      console.log('XML Parser - Raw attributes found:', attributes);
-      console.log('XML Parser - Raw content found:', actionContent.substring(0, 100) + '...');
-      
-      // Parse attributes more robustly - handle both quoted and unquoted values
-      const typeMatch = attributes.match(/type=["']?([^"'\s]*)["']?/i);
-      const filePathMatch = attributes.match(/filePath=["']?([^"'\s]*)["']?/i);
-      const commandMatch = attributes.match(/command=["']?([^"'\s]*)["']?/i);
-      
-      const type = typeMatch ? typeMatch[1] : '';
-      const rawFilePath = filePathMatch ? filePathMatch[1] : '';
-      const filePath = rawFilePath ? this.stripTopLevelFolder(rawFilePath) : '';
-      const command = commandMatch ? commandMatch[1] : '';
-      
-      // Debug logging for path stripping
-      if (rawFilePath && rawFilePath !== filePath) {
-        console.log(`🔧 XML Parser - Stripped path: "${rawFilePath}" → "${filePath}"`);
-      }
-      
-      console.log('XML Parser - Found forgeArtifact:', { 
-        fullMatch: fullMatch.substring(0, 200) + '...',
-        attributes,
-        contentLength: artifactContent.length,
-        hasClosingTag: fullMatch.includes('</forgeArtifact>') || fullMatch.includes('&lt;/forgeArtifact&gt;')
+  /**
+   * Apply one finished forgeAction to the files of the response
+   */
+  private applyAction(result: ParsedResponse, action: Action) {
+    if (action.type === 'file') {
+      const { filePath, content } = action;
+      const fileName = this.extractFileName(filePath);
+
+      // Create directory structure if needed
+      this.getDirectoriesFromPath(filePath).forEach(dirPath => {
+        if (!result.directories.some(d => d.path === dirPath)) {
+          result.directories.push({
+            id: `dir-${dirPath.replace(/[^a-zA-Z0-9]/g, '-')}`,
+            name: this.extractFileName(dirPath),
+            path: dirPath,
+            content: '',
+            language: '',
+            isDirectory: true,
+            children: []
+          });
+        }
       });
 
-      if (type === 'file' && filePath && actionContent) {
-        // Handle file actions
-        const fileName = this.extractFileName(filePath);
-        const content = actionContent.trim();
-        
-        // Create directory structure if needed
-        const directories = this.getDirectoriesFromPath(filePath);
-        directories.forEach(dirPath => {
-          const dirName = this.extractFileName(dirPath);
-          const existingDir = result.directories.find(d => d.path === dirPath);
-          if (!existingDir) {
-            const parsedDir: ParsedFile = {
-              id: `dir-${dirPath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-              name: dirName,
-              path: dirPath,
-              content: '',
-              language: '',
-              isDirectory: true,
-              children: []
-            };
-            console.log('XML Parser - Adding directory:', parsedDir);
-            result.directories.push(parsedDir);
-          }
+      // A full file after a failed patch replaces it
+      result.patchConflicts = result.patchConflicts?.filter(conflict => conflict.path !== filePath);
+
+      // Later files override earlier ones with the same path
+      const parsedFile: ParsedFile = {
+        id: `file-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
+        name: fileName,
+        path: filePath,
+        content: content,
+        language: AIResponseParser.detectLanguage(fileName),
+      };
+      const existingFileIndex = result.files.findIndex(f => f.path === filePath);
+      if (existingFileIndex >= 0) {
+        result.files[existingFileIndex] = parsedFile;
+      } else {
+        result.files.push(parsedFile);
+      }
+
+      // Also add as code block for display
+      if (!result.codeBlocks.some(cb => cb.filename === filePath)) {
+        result.codeBlocks.push({
+          id: `code-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
+          language: AIResponseParser.detectLanguage(fileName),
+          content: content,
+          filename: filePath,
         });
-        
-        // Check if file already exists (handle duplicates)
-        const existingFileIndex = result.files.findIndex(f => f.path === filePath);
-        if (existingFileIndex >= 0) {
-          // Update existing file (later files override earlier ones)
-          result.files[existingFileIndex] = {
-            id: `file-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-            name: fileName,
-            path: filePath,
-            content: content,
-            language: this.detectLanguage(fileName),
-          };
-          console.log('XML Parser - Updating existing file:', filePath);
-        } else {
-          // Add new file
-          const parsedFile: ParsedFile = {
-            id: `file-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-            name: fileName,
-            path: filePath,
-            content: content,
-            language: this.detectLanguage(fileName),
-          };
-          
-          console.log('XML Parser - Adding new file:', parsedFile);
-          result.files.push(parsedFile);
-        }
+      }
+    } else if (action.type === 'delete') {
+      this.recordFileOperation(result, { type: 'delete', path: action.filePath });
+    } else if (action.type === 'rename') {
+      this.recordFileOperation(result, { type: 'rename', from: action.from, to: action.to });
+    } else if (action.type === 'patch') {
+      this.recordPatch(result, action.filePath, action.patch);
+    } else {
+      const commandText = action.command;
+      if (result.artifact) {
+        result.artifact.shellCommands.push(commandText);
 
-        // Also add as code block for display (check for duplicates)
-        const existingCodeBlock = result.codeBlocks.find(cb => cb.filename === filePath);
-        if (!existingCodeBlock) {
+        // Also add as code block for display (avoid duplicates)
+        if (!result.codeBlocks.some(cb => cb.content === commandText && cb.language === 'bash')) {
           result.codeBlocks.push({
-            id: `code-${filePath.replace(/[^a-zA-Z0-9]/g, '-')}`,
-            language: this.detectLanguage(fileName),
-            content: content,
-            filename: filePath,
+            id: `shell-${result.artifact.shellCommands.length - 1}`,
+            language: 'bash',
+            content: commandText,
+            filename: 'shell-commands.sh',
           });
         }
-
-      } else if ((type === 'shell' || type === 'command') && (command || actionContent)) {
-        // Handle shell commands
-        const commandText = command || actionContent.trim();
-        if (commandText) {
-          console.log('XML Parser - Adding shell command:', commandText);
-          result.artifact!.shellCommands.push(commandText);
-          
-          // Also add as code block for display (avoid duplicates)
-          const shellCodeBlockId = `shell-${shellIndex++}`;
-          const existingShellBlock = result.codeBlocks.find(cb => cb.content === commandText && cb.language === 'bash');
-          if (!existingShellBlock) {
-            result.codeBlocks.push({
-              id: shellCodeBlockId,
-              language: 'bash',
-              content: commandText,
-              filename: 'shell-commands.sh',
-            });
-          }
-        }
-      } else {
-        console.log('XML Parser - Unhandled action type or missing data:', { type, filePath, command, hasContent: !!actionContent });
       }
     }
-    
-    // Final deduplication step
-    result.files = this.deduplicateFiles(result.files);
-    result.directories = this.deduplicateDirectories(result.directories);
-    
-    console.log('XML Parser - Completed parsing:', {
-      filesFound: result.files.length,
-      directoriesFound: result.directories.length,
-      codeBlocks: result.codeBlocks.length,
-      shellCommands: result.artifact?.shellCommands.length || 0
-    });
   }
 
   /**
-   * Deduplicate files by path, keeping the last occurrence
+   * Remember a delete or rename action for merging with earlier files, and
+   * apply it to the files written so far in this response
    */
-  private deduplicateFiles(files: ParsedFile[]): ParsedFile[] {
-    const fileMap = new Map<string, ParsedFile>();
-    files.forEach(file => {
-      const existing = fileMap.get(file.path);
-      if (!existing) {
-        // Use consistent ID format for files
-        fileMap.set(file.path, {
-          ...file,
-          id: `file-${file.path.replace(/[^a-zA-Z0-9]/g, '-')}`
-        });
-      } else {
-        // Update existing file with new content but keep consistent ID
-        fileMap.set(file.path, {
-          ...file,
-          id: existing.id // Keep the existing ID to prevent key conflicts
-        });
-      }
-    });
-    return Array.from(fileMap.values());
+  private recordFileOperation(
+    result: ParsedResponse,
+    operation: Extract<ArtifactFileOperation, { type: 'delete' | 'rename' }>
+  ) {
+    result.fileOperations = [...(result.fileOperations || []), operation];
+    const { files, directories } = AIResponseParser.applyFileOperations(result, [operation]);
+    result.files = files;
+    result.directories = directories;
+
+    const removedPath = operation.type === 'delete' ? operation.path : operation.from;
+    result.codeBlocks = result.codeBlocks.filter(
+      block => !block.filename || !isWithinPath(block.filename, removedPath)
+    );
   }
 
   /**
-   * Deduplicate directories by path, keeping the last occurrence
+   * Apply a patch to a file written earlier in this response, or remember it
+   * for merging with the files of earlier responses
    */
-  private deduplicateDirectories(directories: ParsedFile[]): ParsedFile[] {
-    const dirMap = new Map<string, ParsedFile>();
-    directories.forEach(dir => {
-      const existing = dirMap.get(dir.path);
-      if (!existing) {
-        // Use consistent ID format for directories
-        dirMap.set(dir.path, {
-          ...dir,
-          id: `dir-${dir.path.replace(/[^a-zA-Z0-9]/g, '-')}`
-        });
-      }
-    });
-    return Array.from(dirMap.values());
+  private recordPatch(result: ParsedResponse, path: string, patch: string) {
+    const index = result.files.findIndex(file => file.path === path);
+    const file = result.files[index];
+    if (!file) {
+      result.fileOperations = [...(result.fileOperations || []), { type: 'patch', path, patch: trimPatch(patch) }];
+      return;
+    }
+
+    const applied = applyPatch(file.content, patch);
+    if (!applied.ok) {
+      result.patchConflicts = [...(result.patchConflicts || []), { path, error: applied.error }];
+      return;
+    }
+    result.files[index] = { ...file, content: applied.content };
+    result.codeBlocks = result.codeBlocks.map(block =>
+      block.filename === path ? { ...block, content: applied.content } : block
+    );
   }
 
   /**
-   * Extract filename from path
+   * Conflicts of patches whose file the response wrote in full afterwards are resolved
    */
-  private extractFileName(filePath: string): string {
-    return filePath.split('/').pop() || filePath;
+  private static unresolvedConflicts(conflicts: PatchConflict[], response: FileTree): PatchConflict[] | undefined {
+    const unresolved = conflicts.filter(conflict => !response.files.some(file => file.path === conflict.path));
+    return unresolved.length ? unresolved : undefined;
   }
 
   /**
-   * Normalize file paths for comparison (remove leading slashes, handle case sensitivity)
+   * Apply delete, rename and patch actions to a file tree. Unlike edits made in
+   * the file tree these never throw: missing paths are skipped, a rename
+   * replaces whatever is at the target path and a patch that does not apply
+   * leaves the file as it was and is reported in `conflicts`.
    */
-  private normalizePath(filePath: string): string {
-    return filePath.replace(/^\/+/, '').toLowerCase();
+  static applyFileOperations(
+    tree: FileTree,
+    operations: ArtifactFileOperation[] = [],
+    conflicts?: PatchConflict[]
+  ): FileTree {
+    let { files, directories } = tree;
+
+    operations.forEach(operation => {
+      if (operation.type === 'patch') {
+        const target = files.find(file => file.path === operation.path);
+        const applied = target
+          ? applyPatch(target.content, operation.patch)
+          : { ok: false as const, error: 'the file does not exist' };
+        if (applied.ok) {
+          files = files.map(file => (file === target ? { ...file, content: applied.content } : file));
+        } else {
+          conflicts?.push({ path: operation.path, error: applied.error });
+        }
+        return;
+      }
+
+      if (operation.type === 'delete') {
+        files = files.filter(file => !isWithinPath(file.path, operation.path));
+        directories = directories.filter(dir => !isWithinPath(dir.path, operation.path));
+        return;
+      }
+
+      const { from, to } = operation;
+      if (from === to || isWithinPath(to, from)) return;
+
+      const move = (entry: ParsedFile): ParsedFile => {
+        const path = to + entry.path.slice(from.length);
+        const name = path.split('/').pop() || path;
+        const prefix = entry.isDirectory ? 'dir' : 'file';
+        return {
+          ...entry,
+          id: `${prefix}-${path.replace(/[^a-zA-Z0-9]/g, '-')}`,
+          name,
+          path,
+          language: entry.isDirectory ? entry.language : AIResponseParser.detectLanguage(name),
+        };
+      };
+      const moved = files.filter(file => isWithinPath(file.path, from)).map(move);
+      const movedDirs = directories.filter(dir => isWithinPath(dir.path, from)).map(move);
+      if (moved.length === 0 && movedDirs.length === 0) return;
+
+      const targets = new Set([...moved, ...movedDirs].map(entry => entry.path));
+      files = [
+        ...files.filter(file => !isWithinPath(file.path, from) && !targets.has(file.path)),
+        ...moved,
+      ];
+      directories = [
+        ...directories.filter(dir => !isWithinPath(dir.path, from) && !targets.has(dir.path)),
+        ...movedDirs,
+      ];
+    });
+
+    return { files, directories };
   }
 
   /**
-   * Remove top-level project folder from AI-generated paths
-   * Example: "todo-dapp/src/app/page.tsx" -> "src/app/page.tsx"
+   * Extract filename from path
    */
-  private stripTopLevelFolder(filePath: string): string {
-    const cleanPath = filePath.replace(/^\/+/, ''); // Remove leading slashes
-    const parts = cleanPath.split('/');
-    
-    // If path has more than 1 part and starts with a project folder name (not src, public, etc.)
-    if (parts.length > 1 && parts[0]) {
-      const firstPart = parts[0].toLowerCase();
-      const validTopLevelFolders = ['src', 'public', 'pages', 'components', 'lib', 'app', 'styles', 'utils', 'hooks', 'types', 'config', 'anchor', 'tests'];
-      
-      // If first part is NOT a valid top-level folder, it's probably an AI-generated project name
-      if (!validTopLevelFolders.includes(firstPart) && !firstPart.startsWith('.')) {
-        console.log(`XML Parser - Stripping top-level folder "${parts[0]}" from path: ${filePath}`);
-        return parts.slice(1).join('/'); // Remove first part
-      }
-    }
-    
-    return cleanPath; // Return as-is if no stripping needed
+  private extractFileName(filePath: string): string {
+    return filePath.split('/').pop() || filePath;
   }
 
   /**
@@ -668,39 +647,20 @@ export class AIResponseParser {
   }
 
   /**
-   * Extract XML blocks from the response
-   */
-  private extractXMLBlocks(text: string): { type: string; content: string }[] {
-    const blocks: { type: string; content: string }[] = [];
-    
-    // Primary tags for Forge responses
-    const xmlTags = ['forgeArtifact', 'files', 'file', 'directory', 'code', 'review', 'project'];
-    
-    xmlTags.forEach(tag => {
-      const regex = new RegExp(`<${tag}[^>]*>([\\s\\S]*?)</${tag}>`, 'gi');
-      let match;
-      
-      while ((match = regex.exec(text)) !== null) {
-        if (match[0]) {
-          blocks.push({
-            type: tag,
-            content: match[0]
-          });
-        }
-      }
-    });
-
-    return blocks;
-  }
-
-  /**
-   * Extract markdown code blocks
+   * Extract markdown code blocks, starting at `from`. `end` is where the last
+   * one found closed, text before it never has to be scanned again.
    */
-  private extractCodeBlocks(text: string): ParsedResponse['codeBlocks'] {
+  private extractCodeBlocks(
+    text: string,
+    from: number = 0,
+    firstIndex: number = 0
+  ): { codeBlocks: ParsedResponse['codeBlocks']; end: number } {
     const codeBlocks: ParsedResponse['codeBlocks'] = [];
     const regex = /```(\w+)?\s*(?:\/\/\s*(.*))?\n([\s\S]*?)```/g;
+    regex.lastIndex = from;
     let match;
-    let index = 0;
+    let index = firstIndex;
+    let end = from;
 
     while ((match = regex.exec(text)) !== null) {
       const [, language = 'text', filename, content] = match;
@@ -710,75 +670,16 @@ export class AIResponseParser {
         content: content?.trim() || '',
         filename: filename?.trim(),
       });
+      end = regex.lastIndex;
     }
 
-    return codeBlocks;
-  }
-
-  /**
-   * Extract plain text by removing XML artifacts but preserving markdown formatting
-   */
-  private extractPlainText(text: string, xmlBlocks: { type: string; content: string }[]): string {
-    let plainText = text;
-
-    // Remove XML blocks
-    xmlBlocks.forEach(block => {
-      plainText = plainText.replace(block.content, '');
-    });
-
-    // Remove forgeArtifact and forgeAction blocks but preserve other markdown
-    plainText = plainText.replace(/<forgeArtifact[\s\S]*?<\/forgeArtifact>/gi, '');
-    plainText = plainText.replace(/<forgeAction[\s\S]*?<\/forgeAction>/gi, '');
-    plainText = plainText.replace(/&lt;forgeArtifact[\s\S]*?&lt;\/forgeArtifact&gt;/gi, '');
-    plainText = plainText.replace(/&lt;forgeAction[\s\S]*?&lt;\/forgeAction&gt;/gi, '');
-
-    // Remove any remaining XML attributes that might have leaked through
-    plainText = plainText.replace(/\s+(id|type|filePath|command)=["'][^"']*["']/gi, '');
-
-    // Clean up extra whitespace but preserve markdown formatting
-    plainText = plainText.replace(/\n\s*\n\s*\n/g, '\n\n'); // Multiple line breaks
-    plainText = plainText.trim();
-
-    return plainText;
-  }
-
-  /**
-   * Extract plain text for streaming responses - remove XML artifacts but preserve markdown
-   * This handles incomplete XML tags and streaming content
-   */
-  private extractPlainTextForStreaming(text: string): string {
-    let plainText = text;
-
-    // Remove complete forgeArtifact blocks first
-    plainText = plainText.replace(/<forgeArtifact[\s\S]*?<\/forgeArtifact>/gi, '');
-    
-    // Remove incomplete forgeArtifact blocks (for streaming)
-    plainText = plainText.replace(/<forgeArtifact[\s\S]*$/gi, '');
-    
-    // Remove any forgeAction blocks (complete and incomplete)
-    plainText = plainText.replace(/<forgeAction[\s\S]*?<\/forgeAction>/gi, '');
-    plainText = plainText.replace(/<forgeAction[\s\S]*$/gi, '');
-    
-    // Remove HTML-encoded XML (complete and incomplete)
-    plainText = plainText.replace(/&lt;forgeArtifact[\s\S]*?&lt;\/forgeArtifact&gt;/gi, '');
-    plainText = plainText.replace(/&lt;forgeArtifact[\s\S]*$/gi, '');
-    plainText = plainText.replace(/&lt;forgeAction[\s\S]*?&lt;\/forgeAction&gt;/gi, '');
-    plainText = plainText.replace(/&lt;forgeAction[\s\S]*$/gi, '');
-    
-    // Remove any XML attributes that might have leaked through
-    plainText = plainText.replace(/\s+(id|type|filePath|command)=["'][^"']*["']/gi, '');
-    
-    // Clean up extra whitespace but preserve markdown formatting
-    plainText = plainText.replace(/\n\s*\n\s*\n/g, '\n\n'); // Multiple line breaks
-    plainText = plainText.trim();
-    
-    return plainText;
+    return { codeBlocks, end };
   }
 
   /**
    * Detect programming language from filename
    */
-  private detectLanguage(filename: string): string {
+  static detectLanguage(filename: string): string {
     const ext = filename.split('.').pop()?.toLowerCase() || '';
     const languageMap: { [key: string]: string } = {
       'js': 'javascript',
@@ -1,5 +1,7 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  // Workspace packages ship TypeScript sources
+  transpilePackages: ['@repo/artifacts'],
   async headers() {
     return [
       {
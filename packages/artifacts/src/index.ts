@@ -0,0 +1,5 @@
+export * from "./tokenizer";
+export * from "./model";
+export * from "./paths";
+export * from "./patch";
+export * from "./validation";
@@ -0,0 +1,72 @@
+import { describe, expect, test } from "bun:test";
+import { parseArtifacts, toAction } from "./model";
+
+const artifact = (actions: string) => `<forgeArtifact id="app" title="App">\n${actions}\n</forgeArtifact>`;
+
+describe("toAction", () => {
+  test("keeps relative paths and removes a project folder in front of them", () => {
+    expect(toAction({ type: "file", filePath: "src/a.ts" }, "a")).toEqual({ type: "file", filePath: "src/a.ts", content: "a" });
+    expect(toAction({ type: "file", filePath: "todo-app/src/a.ts" }, "a")).toEqual({
+      type: "file",
+      filePath: "src/a.ts",
+      content: "a",
+    });
+  });
+
+  test("removes the work dir from absolute paths inside it", () => {
+    expect(toAction({ type: "file", filePath: "/home/project/src/a.ts" }, "a")).toEqual({
+      type: "file",
+      filePath: "src/a.ts",
+      content: "a",
+    });
+    expect(toAction({ type: "file", filePath: "/home/project/todo-app/src/a.ts" }, "a")).toEqual({
+      type: "file",
+      filePath: "src/a.ts",
+      content: "a",
+    });
+    expect(toAction({ type: "rename", from: "/home/project/src/a.ts", to: "src/b.ts" }, "")).toEqual({
+      type: "rename",
+      from: "src/a.ts",
+      to: "src/b.ts",
+    });
+  });
+
+  test("rejects absolute paths outside the work dir instead of shortening them", () => {
+    expect(toAction({ type: "file", filePath: "/etc/passwd" }, "a")).toBeNull();
+    expect(toAction({ type: "file", filePath: "/home/projects/src/a.ts" }, "a")).toBeNull();
+    expect(toAction({ type: "delete", filePath: "/home/project/../other/a.ts" }, "")).toBeNull();
+    expect(toAction({ type: "rename", from: "src/a.ts", to: "/tmp/a.ts" }, "")).toBeNull();
+  });
+
+  test("rejects relative paths that leave the project", () => {
+    expect(toAction({ type: "file", filePath: "../a.ts" }, "a")).toBeNull();
+    expect(toAction({ type: "patch", filePath: "src/../../a.ts" }, "@@ -1 +1 @@\n-a\n+b")).toBeNull();
+  });
+
+  test("accepts absolute paths below another work dir", () => {
+    expect(toAction({ type: "delete", filePath: "/workspace/src/a.ts" }, "", "/workspace")).toEqual({
+      type: "delete",
+      filePath: "src/a.ts",
+    });
+    expect(toAction({ type: "delete", filePath: "/home/project/src/a.ts" }, "", "/workspace")).toBeNull();
+  });
+});
+
+describe("parseArtifacts", () => {
+  test("parses absolute paths inside the work dir and skips those outside it", () => {
+    const [parsed] = parseArtifacts(
+      artifact(
+        [
+          '<forgeAction type="file" filePath="/home/project/src/a.ts">a</forgeAction>',
+          '<forgeAction type="file" filePath="/etc/passwd">root</forgeAction>',
+          '<forgeAction type="delete" filePath="/home/project/src/old.ts"></forgeAction>',
+        ].join("\n")
+      )
+    );
+
+    expect(parsed?.actions).toEqual([
+      { type: "file", filePath: "src/a.ts", content: "a" },
+      { type: "delete", filePath: "src/old.ts" },
+    ]);
+  });
+});
@@ -0,0 +1,176 @@
+import { tokenizeForge, type ForgeEvent } from "./tokenizer";
+import { WORK_DIR, toProjectPath } from "./paths";
+
+/**
+ * One forgeAction. Paths are relative to the project root, with the project
+ * folder the model sometimes puts in front already removed.
+ */
+export type Action =
+  | { type: "file"; filePath: string; content: string }
+  | { type: "shell"; command: string }
+  | { type: "delete"; filePath: string }
+  | { type: "rename"; from: string; to: string }
+  | { type: "patch"; filePath: string; patch: string };
+
+export interface Artifact {
+  id: string;
+  title: string;
+  actions: Action[];
+  complete: boolean; // The closing tag was seen
+}
+
+/**
+ * An action whose closing tag has not arrived yet
+ */
+export interface OpenAction {
+  attributes: Record<string, string>;
+  content: string;
+}
+
+/**
+ * Text outside artifacts and the artifacts themselves, in response order
+ */
+export type ResponsePart = { type: "text"; text: string } | { type: "artifact"; artifact: Artifact };
+
+export interface ResponseAnalysis {
+  hasForgeArtifact: boolean;
+  hasForgeActions: boolean;
+  fileCount: number;
+  shellCommandCount: number;
+  responseType: "text" | "forge_artifact" | "bolt_artifact";
+  hasValidXML: boolean; // Every artifact and action was closed
+}
+
+/**
+ * Typed action for the attributes and content of a finished forgeAction,
+ * or null when required attributes are missing, a path is outside the
+ * project or the type is unknown
+ */
+export function toAction(
+  attributes: Record<string, string>,
+  content: string,
+  workDir: string = WORK_DIR
+): Action | null {
+  const path = (name: string) => (attributes[name] && toProjectPath(attributes[name], workDir)) || "";
+
+  switch (attributes.type) {
+    case "file":
+      return path("filePath") && content ? { type: "file", filePath: path("filePath"), content: content.trim() } : null;
+    case "shell":
+    case "command": {
+      const command = attributes.command || content.trim();
+      return command ? { type: "shell", command } : null;
+    }
+    case "delete":
+      return path("filePath") ? { type: "delete", filePath: path("filePath") } : null;
+    case "rename":
+      return path("from") && path("to") ? { type: "rename", from: path("from"), to: path("to") } : null;
+    case "patch":
+      return path("filePath") && content.trim() ? { type: "patch", filePath: path("filePath"), patch: content } : null;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Builds artifacts from tokenizer events as they arrive
+ */
+export class ArtifactCollector {
+  readonly parts: ResponsePart[] = [];
+  openAction: OpenAction | null = null;
+  // Actions that closed without a closing tag, the response was cut off inside them
+  unterminatedActions = 0;
+
+  get artifacts(): Artifact[] {
+    return this.parts.flatMap((part) => (part.type === "artifact" ? [part.artifact] : []));
+  }
+
+  /**
+   * Apply events and return the actions they finished
+   */
+  apply(events: ForgeEvent[]): Action[] {
+    const finished: Action[] = [];
+    for (const event of events) {
+      const last = this.parts[this.parts.length - 1];
+      switch (event.type) {
+        case "text":
+          if (last?.type === "text") last.text += event.text;
+          else this.parts.push({ type: "text", text: event.text });
+          break;
+        case "artifact_open":
+          this.parts.push({
+            type: "artifact",
+            artifact: {
+              id: event.attributes.id || "",
+              title: event.attributes.title || "",
+              actions: [],
+              complete: false,
+            },
+          });
+          break;
+        case "artifact_close":
+          if (last?.type === "artifact") last.artifact.complete = event.complete;
+          break;
+        case "action_open":
+          this.openAction = { attributes: event.attributes, content: "" };
+          break;
+        case "action_delta":
+          if (this.openAction) this.openAction.content += event.content;
+          break;
+        case "action_close": {
+          const open = this.openAction;
+          this.openAction = null;
+          if (!open) break;
+          if (!event.complete) {
+            this.unterminatedActions++;
+            break;
+          }
+          const action = toAction(open.attributes, open.content);
+          if (action && last?.type === "artifact") {
+            last.artifact.actions.push(action);
+            finished.push(action);
+          }
+          break;
+        }
+      }
+    }
+    return finished;
+  }
+}
+
+/**
+ * Split a complete response into text and artifacts
+ */
+export function parseResponseParts(response: string): ResponsePart[] {
+  const collector = new ArtifactCollector();
+  collector.apply(tokenizeForge(response));
+  return collector.parts;
+}
+
+/**
+ * Every artifact of a complete response
+ */
+export function parseArtifacts(response: string): Artifact[] {
+  const collector = new ArtifactCollector();
+  collector.apply(tokenizeForge(response));
+  return collector.artifacts;
+}
+
+/**
+ * What a response contains and whether its markup is complete
+ */
+export function analyzeResponse(response: string): ResponseAnalysis {
+  const collector = new ArtifactCollector();
+  collector.apply(tokenizeForge(response));
+  const artifacts = collector.artifacts;
+  const actions = artifacts.flatMap((artifact) => artifact.actions);
+
+  return {
+    hasForgeArtifact: artifacts.length > 0,
+    hasForgeActions: actions.length > 0 || collector.unterminatedActions > 0,
+    fileCount: actions.filter((action) => action.type === "file").length,
+    shellCommandCount: actions.filter((action) => action.type === "shell").length,
+    responseType: artifacts.length > 0 ? "forge_artifact" : response.includes("<boltArtifact") ? "bolt_artifact" : "text",
+    hasValidXML: artifacts.every((artifact) => artifact.complete) && collector.unterminatedActions === 0,
+  };
+}
@@ -0,0 +1,143 @@
+export type PatchResult = { ok: true; content: string } | { ok: false; error: string };
+
+const SEARCH_MARKER = /^<{7} SEARCH\s*$/;
+const DIVIDER_MARKER = /^={7}\s*$/;
+const REPLACE_MARKER = /^>{7} REPLACE\s*$/;
+const HUNK_HEADER = /^@@(?: -(\d+)(?:,\d+)? \+\d+(?:,\d+)?)? @@/;
+
+type Hunk = { start: number | null; lines: { op: " " | "-" | "+"; text: string }[] };
+
+/**
+ * Patch content without the blank lines around it. Spaces are kept, in a
+ * unified diff they mark context lines.
+ */
+export function trimPatch(patch: string): string {
+  return patch.replace(/\r\n/g, "\n").replace(/^(?:[ \t]*\n)+/, "").replace(/(?:\n[ \t]*)+$/, "");
+}
+
+function applySearchReplace(content: string, patch: string): PatchResult {
+  const blocks: { search: string[]; replace: string[] }[] = [];
+  let block: { search: string[]; replace: string[] } | null = null;
+  let section: "search" | "replace" = "search";
+
+  for (const line of patch.split("\n")) {
+    if (SEARCH_MARKER.test(line)) {
+      block = { search: [], replace: [] };
+      section = "search";
+    } else if (block && section === "search" && DIVIDER_MARKER.test(line)) {
+      section = "replace";
+    } else if (block && section === "replace" && REPLACE_MARKER.test(line)) {
+      blocks.push(block);
+      block = null;
+    } else if (block) {
+      block[section].push(line);
+    }
+  }
+  if (block) {
+    return { ok: false, error: `search/replace block ${blocks.length + 1} is not terminated` };
+  }
+
+  let result = content;
+  for (const [index, { search, replace }] of blocks.entries()) {
+    const needle = search.join("\n");
+    if (!needle.trim()) {
+      return { ok: false, error: `search/replace block ${index + 1} has an empty SEARCH section` };
+    }
+    const first = result.indexOf(needle);
+    if (first === -1) {
+      return { ok: false, error: `SEARCH text of block ${index + 1} was not found in the file` };
+    }
+    if (result.indexOf(needle, first + 1) !== -1) {
+      return { ok: false, error: `SEARCH text of block ${index + 1} matches more than one place in the file` };
+    }
+    result = result.slice(0, first) + replace.join("\n") + result.slice(first + needle.length);
+  }
+  return { ok: true, content: result };
+}
+
+function parseHunks(patch: string): Hunk[] {
+  const hunks: Hunk[] = [];
+  let hunk: Hunk | null = null;
+
+  for (const line of patch.split("\n")) {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      hunk = { start: header[1] === undefined ? null : Number(header[1]), lines: [] };
+      hunks.push(hunk);
+    } else if (!hunk || line.startsWith("\\")) {
+      // File headers before the first hunk and "\ No newline at end of file"
+      continue;
+    } else if (line === "") {
+      // Editors and models drop the space of empty context lines
+      hunk.lines.push({ op: " ", text: "" });
+    } else if (line[0] === " " || line[0] === "-" || line[0] === "+") {
+      hunk.lines.push({ op: line[0], text: line.slice(1) });
+    }
+  }
+  return hunks;
+}
+
+/**
+ * Index where `needle` occurs in `lines` closest to `expected`, searching from `min`
+ */
+function findLines(
+  lines: string[],
+  needle: string[],
+  expected: number,
+  min: number,
+  equals: (a: string, b: string) => boolean
+): number {
+  const matchesAt = (at: number) => needle.every((line, i) => equals(lines[at + i]!, line));
+  const last = lines.length - needle.length;
+  for (let distance = 0; expected - distance >= min || expected + distance <= last; distance++) {
+    const after = expected + distance;
+    if (after >= min && after <= last && matchesAt(after)) return after;
+    const before = expected - distance;
+    if (distance > 0 && before >= min && before <= last && matchesAt(before)) return before;
+  }
+  return -1;
+}
+
+function applyUnifiedDiff(content: string, patch: string): PatchResult {
+  const hunks = parseHunks(patch);
+  if (hunks.length === 0) {
+    return { ok: false, error: "patch contains no diff hunks or search/replace blocks" };
+  }
+
+  const lines = content === "" ? [] : content.split("\n");
+  // Line numbers in the headers refer to the original file, earlier hunks shift them
+  let shift = 0;
+  let min = 0;
+
+  for (const [index, hunk] of hunks.entries()) {
+    const before = hunk.lines.filter((line) => line.op !== "+").map((line) => line.text);
+    const after = hunk.lines.filter((line) => line.op !== "-").map((line) => line.text);
+    const expected = Math.max(min, hunk.start === null ? min : hunk.start - 1 + shift);
+
+    let at = before.length === 0 ? Math.min(expected, lines.length) : findLines(lines, before, expected, min, (a, b) => a === b);
+    if (at === -1) {
+      // Indentation and trailing spaces often differ in model output
+      at = findLines(lines, before, expected, min, (a, b) => a.trim() === b.trim());
+    }
+    if (at === -1) {
+      return { ok: false, error: `hunk ${index + 1} does not match the current file` };
+    }
+
+    lines.splice(at, before.length, ...after);
+    if (hunk.start !== null) shift += at - expected;
+    shift += after.length - before.length;
+    min = at + after.length;
+  }
+  return { ok: true, content: lines.join("\n") };
+}
+
+/**
+ * Apply a patch action to a file: either SEARCH/REPLACE blocks or unified diff
+ * hunks. A patch that does not match the file exactly once is a conflict.
+ */
+export function applyPatch(content: string, patch: string): PatchResult {
+  const normalized = trimPatch(patch);
+  return normalized.split("\n").some((line) => SEARCH_MARKER.test(line))
+    ? applySearchReplace(content, normalized)
+    : applyUnifiedDiff(content, normalized);
+}
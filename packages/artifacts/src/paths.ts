@@ -0,0 +1,77 @@
+// Where the system prompt tells the model the project lives
+export const WORK_DIR_NAME = "project";
+export const WORK_DIR = `/home/${WORK_DIR_NAME}`;
+
+// First path segments that belong to the project itself, anything else is
+// taken for a project folder the model put in front of every path
+const PROJECT_TOP_LEVEL_FOLDERS = [
+  "src",
+  "public",
+  "pages",
+  "components",
+  "lib",
+  "app",
+  "styles",
+  "utils",
+  "hooks",
+  "types",
+  "config",
+  "anchor",
+  "tests",
+];
+
+/**
+ * Remove the top-level project folder from a model-generated path
+ * Example: "todo-dapp/src/app/page.tsx" -> "src/app/page.tsx"
+ */
+export function stripTopLevelFolder(filePath: string): string {
+  const cleanPath = filePath.replace(/^\/+/, "");
+  const parts = cleanPath.split("/");
+
+  if (parts.length > 1 && parts[0]) {
+    const firstPart = parts[0].toLowerCase();
+    if (!PROJECT_TOP_LEVEL_FOLDERS.includes(firstPart) && !firstPart.startsWith(".")) {
+      return parts.slice(1).join("/");
+    }
+  }
+
+  return cleanPath;
+}
+
+const isWithinDir = (path: string, dir: string) => path === dir || path.startsWith(`${dir}/`);
+
+/**
+ * Whether a model-generated path points outside the project. Absolute paths
+ * are only accepted below `workDir`.
+ */
+export function escapesRoot(path: string, workDir?: string): boolean {
+  let relative = path.replace(/\\/g, "/");
+  if (/^[a-zA-Z]:\//.test(relative)) return true;
+  if (relative.startsWith("/")) {
+    if (!workDir || !isWithinDir(relative, workDir)) return true;
+    relative = relative.slice(workDir.length);
+  }
+
+  let depth = 0;
+  for (const segment of relative.split("/")) {
+    if (segment === "..") {
+      if (--depth < 0) return true;
+    } else if (segment && segment !== ".") {
+      depth++;
+    }
+  }
+  return false;
+}
+
+/**
+ * Project path for a model-generated path, or null when it is empty or points
+ * outside the project. `workDir` is removed from absolute paths before the
+ * top-level project folder, so "/home/project/src/a.ts" is "src/a.ts" and
+ * "/etc/passwd" is rejected instead of becoming "passwd".
+ */
+export function toProjectPath(path: string, workDir: string = WORK_DIR): string | null {
+  if (escapesRoot(path, workDir)) return null;
+  const normalized = path.replace(/\\/g, "/");
+  const relative = isWithinDir(normalized, workDir) ? normalized.slice(workDir.length) : normalized;
+  return stripTopLevelFolder(relative) || null;
+}
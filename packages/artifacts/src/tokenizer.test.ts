@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { ForgeTokenizer, tokenizeForge, type ForgeEvent } from "./tokenizer";
+
+// Source of every action from its opening to its closing tag
+const actionSources = (response: string, events: ForgeEvent[]) => {
+  const starts = events.flatMap((event) => (event.type === "action_open" ? [event.start] : []));
+  const ends = events.flatMap((event) => (event.type === "action_close" ? [event.end] : []));
+  return starts.map((start, index) => response.slice(start, ends[index]));
+};
+
+describe("ForgeTokenizer action offsets", () => {
+  test("span the action tags, with a quoted > in the attributes", () => {
+    const action = '<forgeAction type="file" filePath="src/a.ts" note="a > b">a</forgeAction>';
+    const response = `Intro\n<forgeArtifact id="app" title="App">\n  ${action}\n  <forgeAction type="delete" filePath="b.ts" />\n</forgeArtifact>`;
+
+    expect(actionSources(response, tokenizeForge(response))).toEqual([
+      action,
+      '<forgeAction type="delete" filePath="b.ts" />',
+    ]);
+  });
+
+  test("point into escaped markup as written", () => {
+    const action = '&lt;forgeAction type="file" filePath="src/a.ts"&gt;a &amp;&amp; b&lt;/forgeAction&gt;';
+    const response = `&lt;forgeArtifact id="app" title="App"&gt;\n${action}\n&lt;/forgeArtifact&gt;`;
+
+    expect(actionSources(response, tokenizeForge(response))).toEqual([action]);
+  });
+
+  test("end an action without a closing tag where its artifact or the response ends", () => {
+    const response =
+      '<forgeArtifact id="app" title="App"><forgeAction type="shell">npm i</forgeArtifact>' +
+      '<forgeArtifact id="more" title="More"><forgeAction type="shell">npm run dev';
+
+    expect(actionSources(response, tokenizeForge(response))).toEqual([
+      '<forgeAction type="shell">npm i',
+      '<forgeAction type="shell">npm run dev',
+    ]);
+  });
+
+  test("do not depend on how the response is split into chunks", () => {
+    const response = '<forgeArtifact id="app" title="App">\n<forgeAction type="file" filePath="a.ts">abc</forgeAction>\n</forgeArtifact>';
+    const tokenizer = new ForgeTokenizer();
+    const events = [...response].flatMap((char) => tokenizer.push(char)).concat(tokenizer.end());
+
+    expect(actionSources(response, events)).toEqual(actionSources(response, tokenizeForge(response)));
+  });
+});
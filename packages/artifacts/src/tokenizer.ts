@@ -0,0 +1,350 @@
+/**
+ * Structured events for the forgeArtifact markup in a model response
+ */
+export type ForgeEvent =
+  | { type: "text"; text: string }
+  | { type: "artifact_open"; attributes: Record<string, string> }
+  | { type: "artifact_close"; complete: boolean }
+  | { type: "action_open"; attributes: Record<string, string>; start: number } // Where the opening tag starts
+  | { type: "action_delta"; content: string }
+  | { type: "action_close"; complete: boolean; end: number }; // complete is false when the response ended first
+
+type State = "text" | "artifact_tag" | "artifact" | "action_tag" | "action" | "cdata";
+
+// Tags are normally raw markup, some responses arrive HTML-escaped as a whole
+interface Syntax {
+  lt: string;
+  gt: string;
+  escaped: boolean;
+}
+
+const RAW: Syntax = { lt: "<", gt: ">", escaped: false };
+const ESCAPED: Syntax = { lt: "&lt;", gt: "&gt;", escaped: true };
+
+const NAMED_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+  nbsp: "\u00a0",
+};
+// Longest entity we wait for before treating a "&" as plain text
+const MAX_ENTITY_LENGTH = 10;
+
+/**
+ * Decode XML character and named entities, unknown entities are kept as written
+ */
+export function decodeEntities(text: string): string {
+  if (!text.includes("&")) return text;
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code =
+        entity[1] === "x" || entity[1] === "X"
+          ? parseInt(entity.slice(2), 16)
+          : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Attributes of an opening tag. Values may be double, single or not quoted,
+ * quoted values keep their spaces and have entities decoded.
+ */
+export function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributeRegex = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>/]+))/g;
+  let match;
+  while ((match = attributeRegex.exec(source)) !== null) {
+    attributes[match[1]!] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Length of the longest suffix of `text` that is a prefix of one of `markers`.
+ * Those bytes stay buffered because the next chunk may complete the marker.
+ */
+function partialMarkerLength(text: string, markers: string[]): number {
+  let longest = 0;
+  for (const marker of markers) {
+    for (let len = Math.min(marker.length - 1, text.length); len > longest; len--) {
+      if (text.endsWith(marker.slice(0, len))) {
+        longest = len;
+        break;
+      }
+    }
+  }
+  return longest;
+}
+
+/**
+ * Incremental tokenizer for forgeArtifact / forgeAction markup. Chunks are fed
+ * as they arrive and every byte is looked at once: only a possible partial tag,
+ * entity or closing marker is held back between chunks.
+ *
+ * - attribute values may be quoted with spaces and contain entities
+ * - action content is passed through as written, except inside an escaped
+ *   artifact where it is entity-decoded, and CDATA sections are unwrapped
+ */
+export class ForgeTokenizer {
+  private buffer = "";
+  private state: State = "text";
+  private syntax: Syntax = RAW;
+  // Opening tag being read: its source, how far it was scanned and an open quote
+  private tag = "";
+  private tagQuote: string | null = null;
+  // Characters pushed so far and where the current action's opening tag started,
+  // action offsets point into the response as written, escaped or not
+  private received = 0;
+  private actionStart = 0;
+
+  push(chunk: string): ForgeEvent[] {
+    this.buffer += chunk;
+    this.received += chunk.length;
+    const events: ForgeEvent[] = [];
+    while (this.buffer && this.step(events)) {
+      // Keep consuming until a state needs more input
+    }
+    return events;
+  }
+
+  /**
+   * Flush what is still buffered once the response is over, closing open tags as incomplete
+   */
+  end(): ForgeEvent[] {
+    const events: ForgeEvent[] = [];
+    if (this.state === "text") {
+      if (this.buffer) events.push({ type: "text", text: this.buffer });
+    } else if (this.state === "action" || this.state === "cdata") {
+      const rest = this.state === "action" ? this.decode(this.buffer) : this.buffer;
+      if (rest) events.push({ type: "action_delta", content: rest });
+      events.push({ type: "action_close", complete: false, end: this.received });
+    }
+    if (this.state !== "text" && this.state !== "artifact_tag") {
+      events.push({ type: "artifact_close", complete: false });
+    }
+
+    this.buffer = "";
+    this.state = "text";
+    this.syntax = RAW;
+    this.tag = "";
+    this.tagQuote = null;
+    this.received = 0;
+    return events;
+  }
+
+  private step(events: ForgeEvent[]): boolean {
+    switch (this.state) {
+      case "text":
+        return this.consumeText(events);
+      case "artifact_tag":
+      case "action_tag":
+        return this.consumeTag(events);
+      case "artifact":
+        return this.consumeArtifact(events);
+      case "action":
+        return this.consumeAction(events);
+      case "cdata":
+        return this.consumeCData(events);
+    }
+  }
+
+  /**
+   * Offset in the response of a position in the buffer
+   */
+  private offset(index: number): number {
+    return this.received - this.buffer.length + index;
+  }
+
+  private decode(text: string): string {
+    return this.syntax.escaped ? decodeEntities(text) : text;
+  }
+
+  private consumeText(events: ForgeEvent[]): boolean {
+    const raw = this.buffer.indexOf(`${RAW.lt}forgeArtifact`);
+    const escaped = this.buffer.indexOf(`${ESCAPED.lt}forgeArtifact`);
+    const start = raw === -1 ? escaped : escaped === -1 ? raw : Math.min(raw, escaped);
+
+    if (start === -1) {
+      const keep = partialMarkerLength(this.buffer, [`${RAW.lt}forgeArtifact`, `${ESCAPED.lt}forgeArtifact`]);
+      const text = this.buffer.slice(0, this.buffer.length - keep);
+      if (text) events.push({ type: "text", text });
+      this.buffer = this.buffer.slice(text.length);
+      return false;
+    }
+
+    if (start > 0) events.push({ type: "text", text: this.buffer.slice(0, start) });
+    this.syntax = start === raw ? RAW : ESCAPED;
+    this.buffer = this.buffer.slice(start + `${this.syntax.lt}forgeArtifact`.length);
+    this.state = "artifact_tag";
+    this.tag = "";
+    this.tagQuote = null;
+    return true;
+  }
+
+  /**
+   * Read an opening tag up to its end, quotes may contain ">"
+   */
+  private consumeTag(events: ForgeEvent[]): boolean {
+    let end = -1;
+    if (this.syntax.escaped) {
+      end = this.buffer.indexOf(this.syntax.gt);
+      if (end === -1) {
+        const keep = partialMarkerLength(this.buffer, [this.syntax.gt]);
+        this.tag += this.buffer.slice(0, this.buffer.length - keep);
+        this.buffer = this.buffer.slice(this.buffer.length - keep);
+        return false;
+      }
+    } else {
+      for (let i = 0; i < this.buffer.length; i++) {
+        const char = this.buffer[i];
+        if (this.tagQuote) {
+          if (char === this.tagQuote) this.tagQuote = null;
+        } else if (char === '"' || char === "'") {
+          this.tagQuote = char;
+        } else if (char === ">") {
+          end = i;
+          break;
+        }
+      }
+      if (end === -1) {
+        this.tag += this.buffer;
+        this.buffer = "";
+        return false;
+      }
+    }
+
+    const source = this.decode(this.tag + this.buffer.slice(0, end)).trim();
+    this.buffer = this.buffer.slice(end + this.syntax.gt.length);
+    this.tag = "";
+    const selfClosing = source.endsWith("/");
+    const attributes = parseAttributes(selfClosing ? source.slice(0, -1) : source);
+
+    if (this.state === "artifact_tag") {
+      events.push({ type: "artifact_open", attributes });
+      if (selfClosing) {
+        events.push({ type: "artifact_close", complete: true });
+        this.state = "text";
+      } else {
+        this.state = "artifact";
+      }
+    } else {
+      events.push({ type: "action_open", attributes, start: this.actionStart });
+      if (selfClosing) {
+        events.push({ type: "action_close", complete: true, end: this.offset(0) });
+        this.state = "artifact";
+      } else {
+        this.state = "action";
+      }
+    }
+    return true;
+  }
+
+  private consumeArtifact(events: ForgeEvent[]): boolean {
+    const actionOpen = `${this.syntax.lt}forgeAction`;
+    const artifactClose = `${this.syntax.lt}/forgeArtifact${this.syntax.gt}`;
+    const actionStart = this.buffer.indexOf(actionOpen);
+    const closeStart = this.buffer.indexOf(artifactClose);
+
+    if (closeStart !== -1 && (actionStart === -1 || closeStart < actionStart)) {
+      events.push({ type: "artifact_close", complete: true });
+      this.buffer = this.buffer.slice(closeStart + artifactClose.length);
+      this.state = "text";
+      this.syntax = RAW;
+      return true;
+    }
+
+    if (actionStart === -1) {
+      // Whitespace between actions carries no information
+      const keep = partialMarkerLength(this.buffer, [actionOpen, artifactClose]);
+      this.buffer = this.buffer.slice(this.buffer.length - keep);
+      return false;
+    }
+
+    this.actionStart = this.offset(actionStart);
+    this.buffer = this.buffer.slice(actionStart + actionOpen.length);
+    this.state = "action_tag";
+    this.tag = "";
+    this.tagQuote = null;
+    return true;
+  }
+
+  private consumeAction(events: ForgeEvent[]): boolean {
+    const markers = {
+      actionClose: `${this.syntax.lt}/forgeAction${this.syntax.gt}`,
+      // A missing </forgeAction> must not swallow the rest of the response
+      artifactClose: `${this.syntax.lt}/forgeArtifact${this.syntax.gt}`,
+      cdata: `${this.syntax.lt}![CDATA[`,
+    };
+
+    let found: keyof typeof markers | null = null;
+    let index = -1;
+    for (const name of Object.keys(markers) as (keyof typeof markers)[]) {
+      const at = this.buffer.indexOf(markers[name]);
+      if (at !== -1 && (index === -1 || at < index)) {
+        found = name;
+        index = at;
+      }
+    }
+
+    let contentEnd = index;
+    if (!found) {
+      contentEnd = this.buffer.length - partialMarkerLength(this.buffer, Object.values(markers));
+      if (this.syntax.escaped) {
+        // An entity split across chunks is decoded once it is complete
+        const amp = this.buffer.lastIndexOf("&", contentEnd - 1);
+        if (amp !== -1 && contentEnd - amp < MAX_ENTITY_LENGTH && !this.buffer.slice(amp, contentEnd).includes(";")) {
+          contentEnd = amp;
+        }
+      }
+    }
+
+    const content = this.decode(this.buffer.slice(0, contentEnd));
+    if (content) events.push({ type: "action_delta", content });
+    this.buffer = this.buffer.slice(contentEnd);
+    if (!found) return false;
+
+    // An action closed by the end of its artifact ends where that closing tag starts
+    const end = this.offset(found === "artifactClose" ? 0 : markers[found].length);
+    this.buffer = this.buffer.slice(markers[found].length);
+    if (found === "cdata") {
+      this.state = "cdata";
+    } else {
+      events.push({ type: "action_close", complete: true, end });
+      this.state = "artifact";
+      if (found === "artifactClose") {
+        events.push({ type: "artifact_close", complete: true });
+        this.state = "text";
+        this.syntax = RAW;
+      }
+    }
+    return true;
+  }
+
+  private consumeCData(events: ForgeEvent[]): boolean {
+    const close = `]]${this.syntax.gt}`;
+    const end = this.buffer.indexOf(close);
+    const contentEnd = end === -1 ? this.buffer.length - partialMarkerLength(this.buffer, [close]) : end;
+
+    // CDATA content is literal, even inside an escaped artifact
+    const content = this.buffer.slice(0, contentEnd);
+    if (content) events.push({ type: "action_delta", content });
+    this.buffer = this.buffer.slice(contentEnd);
+    if (end === -1) return false;
+
+    this.buffer = this.buffer.slice(close.length);
+    this.state = "action";
+    return true;
+  }
+}
+
+/**
+ * Tokenize a complete response in one go
+ */
+export function tokenizeForge(response: string): ForgeEvent[] {
+  const tokenizer = new ForgeTokenizer();
+  return [...tokenizer.push(response), ...tokenizer.end()];
+}
@@ -0,0 +1,51 @@
+import { describe, expect, test } from "bun:test";
+import { validateResponse } from "./validation";
+
+const artifact = (actions: string) => `<forgeArtifact id="app" title="App">\n${actions}\n</forgeArtifact>`;
+
+describe("validateResponse", () => {
+  test("accepts absolute paths inside the work dir", () => {
+    const report = validateResponse(
+      artifact('<forgeAction type="file" filePath="/home/project/src/a.ts">a</forgeAction>')
+    );
+
+    expect(report).toEqual({ valid: true, issues: [] });
+  });
+
+  test("reports absolute paths outside the work dir", () => {
+    const report = validateResponse(
+      artifact(
+        [
+          '<forgeAction type="file" filePath="/etc/passwd">root</forgeAction>',
+          '<forgeAction type="rename" from="src/a.ts" to="/tmp/a.ts"></forgeAction>',
+        ].join("\n")
+      )
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.issues.map(({ code, path }) => ({ code, path }))).toEqual([
+      { code: "path_outside_root", path: "/etc/passwd" },
+      { code: "path_outside_root", path: "/tmp/a.ts" },
+    ]);
+  });
+
+  test("reports an absolute and a relative path to the same file as duplicates", () => {
+    const report = validateResponse(
+      artifact(
+        [
+          '<forgeAction type="file" filePath="/home/project/src/a.ts">a</forgeAction>',
+          '<forgeAction type="file" filePath="src/a.ts">b</forgeAction>',
+        ].join("\n")
+      )
+    );
+
+    expect(report.issues.map(({ code, path }) => ({ code, path }))).toEqual([{ code: "duplicate_path", path: "src/a.ts" }]);
+  });
+
+  test("checks absolute paths against the given work dir", () => {
+    const response = artifact('<forgeAction type="file" filePath="/workspace/src/a.ts">a</forgeAction>');
+
+    expect(validateResponse(response).valid).toBe(false);
+    expect(validateResponse(response, { workDir: "/workspace" }).valid).toBe(true);
+  });
+});
@@ -0,0 +1,142 @@
+import { tokenizeForge } from "./tokenizer";
+import { toAction, type OpenAction } from "./model";
+import { WORK_DIR, escapesRoot } from "./paths";
+
+export type ValidationIssueCode =
+  | "unclosed_artifact"
+  | "unclosed_action"
+  | "invalid_action"
+  | "duplicate_path"
+  | "path_outside_root"
+  | "empty_file"
+  | "invalid_package_json";
+
+export interface ValidationIssue {
+  code: ValidationIssueCode;
+  severity: "error" | "warning";
+  message: string;
+  path?: string;
+  repaired?: boolean; // Fixed before the response was saved
+}
+
+export interface ValidationReport {
+  valid: boolean; // No errors, warnings are allowed
+  issues: ValidationIssue[];
+}
+
+const PATH_ATTRIBUTES = ["filePath", "from", "to"];
+
+/**
+ * Check a complete response for problems that would break the project or
+ * make the parsers disagree on what it contains
+ */
+export function validateResponse(response: string, options: { workDir?: string } = {}): ValidationReport {
+  const { workDir = WORK_DIR } = options;
+  const issues: ValidationIssue[] = [];
+  const writes = new Map<string, number>();
+  let open: OpenAction | null = null;
+
+  const checkAction = ({ attributes, content }: OpenAction) => {
+    const type = attributes.type || "";
+    const escaping = PATH_ATTRIBUTES.map((name) => attributes[name] || "").filter(
+      (path) => path && escapesRoot(path, workDir)
+    );
+    if (escaping.length > 0) {
+      escaping.forEach((path) =>
+        issues.push({
+          code: "path_outside_root",
+          severity: "error",
+          message: `${path} is outside the project`,
+          path,
+        })
+      );
+      return;
+    }
+
+    if (type === "file" && attributes.filePath && !content.trim()) {
+      issues.push({
+        code: "empty_file",
+        severity: "warning",
+        message: `${attributes.filePath} has no content and was not written`,
+        path: attributes.filePath,
+      });
+      return;
+    }
+
+    const action = toAction(attributes, content, workDir);
+    if (!action) {
+      issues.push({
+        code: "invalid_action",
+        severity: "warning",
+        message: type ? `A ${type} action is missing required attributes or content` : "An action has no type",
+        path: attributes.filePath || attributes.from || undefined,
+      });
+      return;
+    }
+    if (action.type !== "file") return;
+
+    const count = (writes.get(action.filePath) || 0) + 1;
+    writes.set(action.filePath, count);
+    if (count === 2) {
+      issues.push({
+        code: "duplicate_path",
+        severity: "warning",
+        message: `${action.filePath} is written more than once`,
+        path: action.filePath,
+      });
+    }
+
+    if (action.filePath.split("/").pop() === "package.json") {
+      try {
+        JSON.parse(action.content);
+      } catch (error) {
+        issues.push({
+          code: "invalid_package_json",
+          severity: "error",
+          message: `${action.filePath} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`,
+          path: action.filePath,
+        });
+      }
+    }
+  };
+
+  for (const event of tokenizeForge(response)) {
+    switch (event.type) {
+      case "artifact_close":
+        if (!event.complete) {
+          issues.push({
+            code: "unclosed_artifact",
+            severity: "error",
+            message: "The artifact is missing its closing tag",
+          });
+        }
+        break;
+      case "action_open":
+        open = { attributes: event.attributes, content: "" };
+        break;
+      case "action_delta":
+        if (open) open.content += event.content;
+        break;
+      case "action_close": {
+        const action = open;
+        open = null;
+        if (!action) break;
+        if (event.complete) {
+          checkAction(action);
+        } else {
+          issues.push({
+            code: "unclosed_action",
+            severity: "error",
+            message: action.attributes.filePath
+              ? `${action.attributes.filePath} was cut off before its closing tag`
+              : "An action was cut off before its closing tag",
+            path: action.attributes.filePath || undefined,
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return { valid: !issues.some((issue) => issue.severity === "error"), issues };
+}
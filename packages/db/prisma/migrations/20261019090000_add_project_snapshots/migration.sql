@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "public"."ProjectSnapshot" (
+    "id" TEXT NOT NULL,
+    "state" JSONB NOT NULL,
+    "fileCount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "projectId" TEXT NOT NULL,
+    "promptId" TEXT NOT NULL,
+
+    CONSTRAINT "ProjectSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProjectSnapshot_promptId_key" ON "public"."ProjectSnapshot"("promptId");
+
+-- CreateIndex
+CREATE INDEX "ProjectSnapshot_projectId_idx" ON "public"."ProjectSnapshot"("projectId");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectSnapshot" ADD CONSTRAINT "ProjectSnapshot_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."Project"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectSnapshot" ADD CONSTRAINT "ProjectSnapshot_promptId_fkey" FOREIGN KEY ("promptId") REFERENCES "public"."Prompt"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Prompt" ADD COLUMN     "interrupted" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Prompt" ADD COLUMN     "validation" JSONB;